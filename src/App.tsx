@@ -11,6 +11,9 @@ const PAGE_TITLES: Record<string, string> = {
   "/login": "Log in",
   "/image-to-video": "Image to Video",
   "/history": "History",
+  "/batch": "Batch",
+  "/analytics": "Analytics",
+  "/settings": "Settings",
 };
 
 function usePageTitle() {
@@ -23,10 +26,17 @@ function usePageTitle() {
 import { setGrokApiKey } from "./lib/grokApi";
 import { getApiKeyFromCookie, clearApiKeyCookie } from "./lib/cookies";
 import { AppStateProvider } from "./context/AppStateContext";
+import JobsTray from "./components/JobsTray";
+import BudgetWidget from "./components/BudgetWidget";
+import BudgetWarning from "./components/BudgetWarning";
+import RequestInspector from "./components/RequestInspector";
 import Login from "./pages/Login";
 import ImageToImage from "./pages/ImageToImage";
 import ImageToVideo from "./pages/ImageToVideo";
 import History from "./pages/History";
+import Batch from "./pages/Batch";
+import Analytics from "./pages/Analytics";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 import "./App.css";
 
@@ -56,12 +66,19 @@ function ProtectedLayout({ children }: { children: React.ReactNode }) {
       <nav className="nav">
         <Link to="/">Image to Image</Link>
         <Link to="/image-to-video">Image to Video</Link>
+        <Link to="/batch">Batch</Link>
         <Link to="/history">History</Link>
+        <Link to="/analytics">Analytics</Link>
+        <Link to="/settings">Settings</Link>
+        <BudgetWidget />
+        <JobsTray />
         <button type="button" className="nav-logout" onClick={handleLogout}>
           Log out
         </button>
       </nav>
       <main>{children}</main>
+      <BudgetWarning />
+      <RequestInspector />
     </>
   );
 }
@@ -98,6 +115,30 @@ function App() {
                 </ProtectedLayout>
               }
             />
+            <Route
+              path="/batch"
+              element={
+                <ProtectedLayout>
+                  <Batch />
+                </ProtectedLayout>
+              }
+            />
+            <Route
+              path="/analytics"
+              element={
+                <ProtectedLayout>
+                  <Analytics />
+                </ProtectedLayout>
+              }
+            />
+            <Route
+              path="/settings"
+              element={
+                <ProtectedLayout>
+                  <Settings />
+                </ProtectedLayout>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </div>
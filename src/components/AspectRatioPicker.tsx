@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { VIDEO_ASPECT_RATIOS, type VideoAspectRatio } from "../lib/grokApi";
+
+type Props = {
+  value: VideoAspectRatio | null;
+  onChange: (value: VideoAspectRatio | null) => void;
+  /** Uploaded image to frame; text-to-video has none. */
+  preview: string | null;
+};
+
+function ratioValue(ratio: VideoAspectRatio): number {
+  const [w, h] = ratio.split(":").map(Number);
+  return w / h;
+}
+
+export default function AspectRatioPicker({ value, onChange, preview }: Props) {
+  const [fit, setFit] = useState<"crop" | "letterbox">("crop");
+  const [measured, setMeasured] = useState<{ src: string; ratio: number } | null>(null);
+  const imageRatio = preview && measured?.src === preview ? measured.ratio : null;
+
+  useEffect(() => {
+    if (!preview) return;
+    const img = new Image();
+    img.onload = () => setMeasured({ src: preview, ratio: img.naturalWidth / img.naturalHeight });
+    img.src = preview;
+  }, [preview]);
+
+  const frameRatio = value ? ratioValue(value) : imageRatio;
+  const mismatch = value !== null && imageRatio !== null && Math.abs(ratioValue(value) - imageRatio) > 0.01;
+
+  return (
+    <div className="block">
+      <span>Aspect ratio</span>
+      <div className="aspect-ratio-options" role="radiogroup" aria-label="Aspect ratio">
+        <button
+          type="button"
+          role="radio"
+          aria-checked={value === null}
+          className={`aspect-ratio-option ${value === null ? "active" : ""}`}
+          onClick={() => onChange(null)}
+        >
+          {preview ? "Match image" : "Default"}
+        </button>
+        {VIDEO_ASPECT_RATIOS.map((ratio) => (
+          <button
+            key={ratio}
+            type="button"
+            role="radio"
+            aria-checked={value === ratio}
+            className={`aspect-ratio-option ${value === ratio ? "active" : ""}`}
+            onClick={() => onChange(ratio)}
+          >
+            {ratio}
+          </button>
+        ))}
+      </div>
+
+      {preview && frameRatio !== null && (
+        <div className="aspect-ratio-preview">
+          <div
+            className={`aspect-ratio-frame aspect-ratio-frame--${fit}`}
+            style={{ aspectRatio: frameRatio }}
+          >
+            <img src={preview} alt="Framing preview" />
+          </div>
+          {mismatch && (
+            <div className="aspect-ratio-fit">
+              <span className="cost-detail-note">Preview as:</span>
+              <button
+                type="button"
+                className={`aspect-ratio-option ${fit === "crop" ? "active" : ""}`}
+                onClick={() => setFit("crop")}
+              >
+                Crop
+              </button>
+              <button
+                type="button"
+                className={`aspect-ratio-option ${fit === "letterbox" ? "active" : ""}`}
+                onClick={() => setFit("letterbox")}
+              >
+                Letterbox
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <span className="cost-detail-note">
+        {value === null
+          ? preview
+            ? "The video keeps the uploaded image's aspect ratio."
+            : "xAI picks its default aspect ratio for text-to-video."
+          : mismatch
+            ? `The image does not match ${value}. Crop shows the part that fills the frame; letterbox shows the whole image with bars.`
+            : `The video will be rendered at ${value}.`}
+      </span>
+    </div>
+  );
+}
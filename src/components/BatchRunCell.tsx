@@ -0,0 +1,43 @@
+import { BATCH_STATUS_LABELS, type BatchRowRun, type BatchTask } from "../lib/batch";
+import { GROK_ERROR_HINTS, GROK_ERROR_LABELS } from "../lib/grokErrors";
+
+type Props = {
+  task: BatchTask;
+  run: BatchRowRun | undefined;
+  onRetry: () => void;
+};
+
+/**
+ * Status, errors and results of one batch row
+ */
+export default function BatchRunCell({ task, run, onRetry }: Props) {
+  const status = run?.status ?? "pending";
+  // Moderated rows already say so in their status
+  const errorKind = status === "failed" ? run?.errorKind ?? null : null;
+
+  return (
+    <div className={`batch-run-cell batch-row--${status}`}>
+      <strong>{errorKind ? `❌ ${GROK_ERROR_LABELS[errorKind]}` : BATCH_STATUS_LABELS[status]}</strong>
+      {run && run.attempts > 1 && <span className="batch-attempts"> · attempt {run.attempts}</span>}
+      {run?.progress && <p className="batch-note">{run.progress}</p>}
+      {run?.error && <p className="error batch-note">{run.error}</p>}
+      {errorKind && GROK_ERROR_HINTS[errorKind] && <p className="batch-note">{GROK_ERROR_HINTS[errorKind]}</p>}
+      {(status === "failed" || status === "moderated" || status === "cancelled") && (
+        <button type="button" className="btn-link" onClick={onRetry}>
+          Retry
+        </button>
+      )}
+      {run && run.resultUrls.length > 0 && (
+        <div className="batch-results">
+          {run.resultUrls.map((url, i) =>
+            task.mode === "image-edit" ? (
+              <img key={i} src={url} alt={`Result ${i + 1}`} />
+            ) : (
+              <video key={i} src={url} controls />
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
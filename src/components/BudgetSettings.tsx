@@ -0,0 +1,138 @@
+import { useState } from "react";
+import {
+  BUDGET_PERIOD_LABELS,
+  BUDGET_PERIOD_SPANS,
+  BUDGET_SCOPE_LABELS,
+  DEFAULT_WARN_AT,
+  getBudgets,
+  getPeriodSpend,
+  saveBudgets,
+  type Budget,
+  type BudgetPeriod,
+  type BudgetScope,
+} from "../lib/budget";
+
+/**
+ * Editor for spending budgets. Changes are saved as they are made.
+ */
+export default function BudgetSettings() {
+  const [budgets, setBudgets] = useState<Budget[]>(() => getBudgets());
+
+  const update = (next: Budget[]) => {
+    setBudgets(next);
+    saveBudgets(next);
+  };
+
+  const updateBudget = (id: string, changes: Partial<Budget>) => {
+    update(budgets.map((budget) => (budget.id === id ? { ...budget, ...changes } : budget)));
+  };
+
+  const addBudget = () => {
+    update([...budgets, { id: crypto.randomUUID(), period: "monthly", scope: "all", limit: 20, warnAt: DEFAULT_WARN_AT }]);
+  };
+
+  return (
+    <div className="auto-save-settings budget-settings">
+      <div className="auto-save-header">
+        <h3>💰 Budgets</h3>
+        <button type="button" onClick={addBudget}>
+          Add budget
+        </button>
+      </div>
+
+      {budgets.length === 0 ? (
+        <p className="auto-save-hint">
+          No budgets set. Add one to get a warning before a generation takes you close to a limit, and to block
+          generations that would go over it.
+        </p>
+      ) : (
+        <table className="batch-table budget-table">
+          <thead>
+            <tr>
+              <th>Period</th>
+              <th>Applies to</th>
+              <th>Hard cap (USD)</th>
+              <th>Warn at</th>
+              <th>Spent</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {budgets.map((budget) => {
+              const spent = getPeriodSpend(budget.period, budget.scope);
+              return (
+                <tr key={budget.id}>
+                  <td>
+                    <select
+                      value={budget.period}
+                      onChange={(e) => updateBudget(budget.id, { period: e.target.value as BudgetPeriod })}
+                    >
+                      {Object.entries(BUDGET_PERIOD_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <select
+                      value={budget.scope}
+                      onChange={(e) => updateBudget(budget.id, { scope: e.target.value as BudgetScope })}
+                    >
+                      {Object.entries(BUDGET_SCOPE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0.01}
+                      step={0.01}
+                      value={budget.limit}
+                      onChange={(e) => {
+                        const limit = Number(e.target.value);
+                        if (limit > 0) updateBudget(budget.id, { limit });
+                      }}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={Math.round(budget.warnAt * 100)}
+                      onChange={(e) =>
+                        updateBudget(budget.id, { warnAt: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })
+                      }
+                    />
+                    %
+                  </td>
+                  <td>
+                    ${spent.toFixed(2)} {BUDGET_PERIOD_SPANS[budget.period]}
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      className="btn-link"
+                      onClick={() => update(budgets.filter((other) => other.id !== budget.id))}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <p className="cost-detail-note">
+        Spend is the list price of each generation (including moderation fees) recorded in this browser. Batches and
+        sweeps are checked against the budgets for their total before they start.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { useAppState } from "../context/AppStateContext";
+import { describeBudget } from "../lib/budget";
+
+const formatCost = (cost: number) => `$${cost.toFixed(2)}`;
+
+/**
+ * Modal shown when a generation would cross a budget: a soft warning can be dismissed,
+ * a hard cap needs an explicit override
+ */
+export default function BudgetWarning() {
+  const { state, resolveBudgetPrompt } = useAppState();
+  const prompt = state.budgetPrompt;
+  const [override, setOverride] = useState(false);
+
+  if (!prompt) return null;
+
+  const blocked = prompt.check.status === "blocked";
+
+  const close = (proceed: boolean) => {
+    setOverride(false);
+    resolveBudgetPrompt(proceed);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className={`modal-content budget-warning-modal ${blocked ? "budget-warning-modal--blocked" : ""}`}>
+        <div className="modal-header">
+          <h2>{blocked ? "⛔ Over budget" : "⚠️ Approaching budget"}</h2>
+        </div>
+
+        <div className="modal-body">
+          <p>
+            {prompt.description} will cost about <strong>{formatCost(prompt.cost)}</strong>.
+          </p>
+          <ul className="budget-breaches">
+            {prompt.check.breaches.map(({ budget, spent, projected, level }) => (
+              <li key={budget.id} className={`budget-breach budget-breach--${level}`}>
+                <strong>{describeBudget(budget)}</strong>: {formatCost(spent)} spent of {formatCost(budget.limit)}, {formatCost(projected)} after this
+                {level === "blocked" ? " — over the cap" : ` — past the ${Math.round(budget.warnAt * 100)}% warning`}
+              </li>
+            ))}
+          </ul>
+          {blocked && (
+            <label className="budget-override">
+              <input type="checkbox" checked={override} onChange={(e) => setOverride(e.target.checked)} /> I understand this goes
+              over my budget. Generate anyway.
+            </label>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button type="button" onClick={() => close(false)} className="btn-modal btn-cancel">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => close(true)}
+            disabled={blocked && !override}
+            className="btn-modal btn-proceed"
+          >
+            {blocked ? "Override and generate" : "Generate anyway"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAppState } from "../context/AppStateContext";
+import { BUDGET_PERIOD_SPANS, BUDGET_SCOPE_LABELS, getBudgetUsage, getPeriodSpend } from "../lib/budget";
+
+/**
+ * Nav summary of spend so far: the budget closest to its cap, or this month's spend when
+ * no budgets are set. Links to the budget settings.
+ */
+export default function BudgetWidget() {
+  // Re-render whenever jobs change, and every few seconds for spend from other tabs
+  useAppState();
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const usage = getBudgetUsage();
+  const tightest = usage.reduce<(typeof usage)[number] | null>(
+    (best, entry) => (!best || entry.spent / entry.budget.limit > best.spent / best.budget.limit ? entry : best),
+    null
+  );
+
+  if (!tightest) {
+    return (
+      <Link to="/settings" className="budget-widget" title="Set spending budgets">
+        💰 ${getPeriodSpend("monthly", "all").toFixed(2)} this month
+      </Link>
+    );
+  }
+
+  const { budget, spent } = tightest;
+  const ratio = spent / budget.limit;
+  const level = ratio >= 1 ? "blocked" : ratio >= budget.warnAt ? "warning" : "ok";
+  const scope = budget.scope === "all" ? "" : ` (${BUDGET_SCOPE_LABELS[budget.scope].toLowerCase()})`;
+
+  return (
+    <Link
+      to="/settings"
+      className={`budget-widget budget-widget--${level}`}
+      title={usage.length > 1 ? `Closest of ${usage.length} budgets to its cap` : "Spending budget"}
+    >
+      💰 ${spent.toFixed(2)} / ${budget.limit.toFixed(2)} {BUDGET_PERIOD_SPANS[budget.period]}
+      {scope}
+      <span className="budget-widget-track" aria-hidden="true">
+        <span className="budget-widget-fill" style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+      </span>
+    </Link>
+  );
+}
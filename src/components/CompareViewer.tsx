@@ -0,0 +1,301 @@
+import {
+  useEffect,
+  useRef,
+  useState,
+  type PointerEvent as ReactPointerEvent,
+  type WheelEvent as ReactWheelEvent,
+} from "react";
+import { diffWords, getDifferingFields, type CompareItem } from "../lib/compare";
+
+type Props = {
+  items: CompareItem[];
+  onClose: () => void;
+};
+
+type View = { scale: number; x: number; y: number };
+
+const LETTERS = ["A", "B", "C", "D"];
+const SCALE_MIN = 1;
+const SCALE_MAX = 8;
+const DEFAULT_VIEW: View = { scale: 1, x: 0, y: 0 };
+// Followers further than this from the lead video get snapped back to it
+const DRIFT_TOLERANCE = 0.25;
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Full-screen comparison of 2–4 results. Zoom and pan are shared by every pane, videos
+ * play and scrub together, and the swipe layout overlays two items with a slider.
+ */
+export default function CompareViewer({ items, onClose }: Props) {
+  const [layout, setLayout] = useState<"side-by-side" | "swipe">("side-by-side");
+  const [view, setView] = useState<View>(DEFAULT_VIEW);
+  const [swipeIndex, setSwipeIndex] = useState(1);
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const videos = useRef(new Map<string, HTMLVideoElement>());
+  const drag = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const hasVideo = items.some((item) => item.type === "video");
+  const differing = getDifferingFields(items);
+  const shown = layout === "swipe" ? [items[0], items[swipeIndex]] : items;
+  const leadId = shown.find((item) => item.type === "video")?.id;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const setVideoRef = (id: string) => (el: HTMLVideoElement | null) => {
+    if (el) videos.current.set(id, el);
+    else videos.current.delete(id);
+  };
+
+  const forEachVideo = (fn: (video: HTMLVideoElement) => void) => {
+    videos.current.forEach(fn);
+  };
+
+  const togglePlay = () => {
+    if (playing) {
+      forEachVideo((video) => video.pause());
+      setPlaying(false);
+    } else {
+      forEachVideo((video) => {
+        if (video.ended) video.currentTime = 0;
+        void video.play().catch(() => {});
+      });
+      setPlaying(true);
+    }
+  };
+
+  const seek = (time: number) => {
+    forEachVideo((video) => {
+      video.currentTime = Math.min(time, video.duration || time);
+    });
+    setCurrentTime(time);
+  };
+
+  // Panes remount when the layout or the swipe pair changes, so playback starts over
+  const resetPlayback = () => {
+    setPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+  };
+
+  const changeLayout = (next: "side-by-side" | "swipe") => {
+    if (next === layout) return;
+    setLayout(next);
+    resetPlayback();
+  };
+
+  const onLeadTimeUpdate = (lead: HTMLVideoElement) => {
+    setCurrentTime(lead.currentTime);
+    forEachVideo((video) => {
+      if (video !== lead && !video.ended && Math.abs(video.currentTime - lead.currentTime) > DRIFT_TOLERANCE) {
+        video.currentTime = Math.min(lead.currentTime, video.duration || lead.currentTime);
+      }
+    });
+  };
+
+  const onWheel = (e: ReactWheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    // Zoom around the pointer: keep the point under it fixed
+    const px = e.clientX - rect.left - rect.width / 2;
+    const py = e.clientY - rect.top - rect.height / 2;
+    setView((prev) => {
+      const scale = Math.min(SCALE_MAX, Math.max(SCALE_MIN, prev.scale * (e.deltaY < 0 ? 1.2 : 1 / 1.2)));
+      if (scale === SCALE_MIN) return DEFAULT_VIEW;
+      const ratio = scale / prev.scale;
+      return { scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+    });
+  };
+
+  const onPointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (view.scale === SCALE_MIN) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+  };
+
+  const onPointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const start = drag.current;
+    if (!start) return;
+    setView((prev) => ({ ...prev, x: start.x + e.clientX - start.pointerX, y: start.y + e.clientY - start.pointerY }));
+  };
+
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  const stageHandlers = {
+    onWheel,
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel: onPointerUp,
+    onDoubleClick: () => setView(DEFAULT_VIEW),
+  };
+  const transform = { transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` };
+
+  const renderMedia = (item: CompareItem, letter: string) =>
+    item.type === "video" ? (
+      <video
+        key={item.id}
+        ref={setVideoRef(item.id)}
+        src={item.url}
+        poster={item.poster}
+        muted
+        playsInline
+        className="compare-media"
+        style={transform}
+        onLoadedMetadata={(e) => {
+          const videoDuration = e.currentTarget.duration;
+          setDuration((prev) => Math.max(prev, Number.isFinite(videoDuration) ? videoDuration : 0));
+        }}
+        onTimeUpdate={item.id === leadId ? (e) => onLeadTimeUpdate(e.currentTarget) : undefined}
+        onEnded={item.id === leadId ? () => setPlaying(false) : undefined}
+      />
+    ) : (
+      <img key={item.id} src={item.url} alt={letter} draggable={false} className="compare-media" style={transform} />
+    );
+
+  return (
+    <div className="modal-overlay compare-overlay" role="dialog" aria-modal="true" aria-label="Compare results">
+      <div className="compare-viewer">
+        <div className="compare-toolbar">
+          <div className="batch-source-options" role="radiogroup" aria-label="Layout">
+            <button
+              type="button"
+              role="radio"
+              aria-checked={layout === "side-by-side"}
+              className={`batch-source-option ${layout === "side-by-side" ? "active" : ""}`}
+              onClick={() => changeLayout("side-by-side")}
+            >
+              Side by side
+            </button>
+            <button
+              type="button"
+              role="radio"
+              aria-checked={layout === "swipe"}
+              className={`batch-source-option ${layout === "swipe" ? "active" : ""}`}
+              onClick={() => changeLayout("swipe")}
+            >
+              A/B swipe
+            </button>
+          </div>
+          {layout === "swipe" && items.length > 2 && (
+            <label className="compare-swipe-pick">
+              A vs{" "}
+              <select
+                value={swipeIndex}
+                onChange={(e) => {
+                  setSwipeIndex(Number(e.target.value));
+                  resetPlayback();
+                }}
+              >
+                {items.slice(1).map((item, i) => (
+                  <option key={item.id} value={i + 1}>
+                    {LETTERS[i + 1]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <span className="cost-detail-note">
+            {view.scale > 1 ? `${Math.round(view.scale * 100)}% · drag to pan, double-click to reset` : "Scroll to zoom"}
+          </span>
+          <button type="button" onClick={onClose} className="btn-close" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {layout === "side-by-side" ? (
+          <div className={`compare-panes compare-panes--${items.length}`}>
+            {items.map((item, i) => (
+              <div key={item.id} className="compare-pane">
+                <div className="compare-stage" {...stageHandlers}>
+                  {renderMedia(item, LETTERS[i])}
+                  <span className="compare-letter">{LETTERS[i]}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="compare-panes compare-panes--swipe">
+            <div className="compare-stage" {...stageHandlers}>
+              {renderMedia(items[swipeIndex], LETTERS[swipeIndex])}
+              <div className="compare-swipe-top" style={{ clipPath: `inset(0 ${100 - swipePosition}% 0 0)` }}>
+                {renderMedia(items[0], "A")}
+              </div>
+              <div className="compare-swipe-divider" style={{ left: `${swipePosition}%` }} />
+              <span className="compare-letter">A</span>
+              <span className="compare-letter compare-letter--right">{LETTERS[swipeIndex]}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={swipePosition}
+              onChange={(e) => setSwipePosition(Number(e.target.value))}
+              aria-label="Swipe position"
+              className="compare-swipe-slider"
+            />
+          </div>
+        )}
+
+        {hasVideo && (
+          <div className="compare-playback">
+            <button type="button" onClick={togglePlay}>
+              {playing ? "⏸ Pause" : "▶ Play"}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.01}
+              value={Math.min(currentTime, duration)}
+              onChange={(e) => seek(Number(e.target.value))}
+              aria-label="Scrub"
+            />
+            <span className="compare-time">
+              {formatTime(currentTime)} / {formatTime(duration)}
+            </span>
+          </div>
+        )}
+
+        <div className={`compare-details compare-panes--${shown.length}`}>
+          {shown.map((item) => {
+            const letter = LETTERS[items.indexOf(item)];
+            return (
+              <div key={item.id} className="compare-detail">
+                <h3>{letter}</h3>
+                <p className="compare-prompt">
+                  {item === items[0]
+                    ? item.prompt
+                    : diffWords(items[0].prompt, item.prompt).map((segment, i) =>
+                        segment.changed ? <mark key={i}>{segment.text}</mark> : <span key={i}>{segment.text}</span>
+                      )}
+                </p>
+                <dl className="compare-fields">
+                  {Object.entries(item.fields).map(([label, value]) => (
+                    <div key={label} className={differing.has(label) ? "compare-field--differs" : undefined}>
+                      <dt>{label}</dt>
+                      <dd>{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import type { BatchRowRun, BatchTask } from "../lib/batch";
+import BatchRunCell from "./BatchRunCell";
+
+type Props = {
+  tasks: BatchTask[];
+  runs: Record<string, BatchRowRun>;
+  onRetry: (rowId: string) => void;
+};
+
+/**
+ * Sweep results laid out by grid labels: one row per prompt variant, one column per parameter combination
+ */
+export default function ComparisonGrid({ tasks, runs, onRetry }: Props) {
+  const rows: Array<{ label: string; prompt: string }> = [];
+  const columns: string[] = [];
+  const cells = new Map<string, BatchTask>();
+
+  for (const task of tasks) {
+    if (!task.grid) continue;
+    if (!rows.some((row) => row.label === task.grid!.row)) rows.push({ label: task.grid.row, prompt: task.prompt });
+    if (!columns.includes(task.grid.column)) columns.push(task.grid.column);
+    cells.set(`${task.grid.row}\n${task.grid.column}`, task);
+  }
+
+  return (
+    <div className="comparison-grid-wrapper">
+      <table className="comparison-grid">
+        <thead>
+          <tr>
+            <th />
+            {columns.map((column) => (
+              <th key={column} scope="col">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label}>
+              <th scope="row">
+                <span className="comparison-grid-label">{row.label}</span>
+                <span className="comparison-grid-prompt">{row.prompt}</span>
+              </th>
+              {columns.map((column) => {
+                const task = cells.get(`${row.label}\n${column}`);
+                return (
+                  <td key={column}>
+                    {task && <BatchRunCell task={task} run={runs[task.id]} onRetry={() => onRetry(task.id)} />}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
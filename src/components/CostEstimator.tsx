@@ -1,33 +1,42 @@
-import { PRICING, calculateImageEditCost, calculateVideoCost } from "../lib/pricing";
+import { getPricingTable, getBilledVideo, calculateImageCost, calculateImageEditCost, calculateVideoModeCost } from "../lib/pricing";
 
 interface CostEstimatorProps {
   type: "image" | "video";
   // For images
+  imageMode?: "edit" | "text";
   model?: "grok-imagine-image" | "grok-imagine-image-pro";
   imageCount?: number;
   // For videos
-  videoMode?: "generate" | "edit" | "extend";
+  videoMode?: "generate" | "edit" | "extend" | "text";
   duration?: number;
   resolution?: "480p" | "720p";
+  // Read from the source video for edit and extend
+  sourceDuration?: number | null;
+  sourceResolution?: "480p" | "720p" | null;
 }
 
 export default function CostEstimator({
   type,
+  imageMode = "edit",
   model = "grok-imagine-image",
   imageCount = 1,
   videoMode = "generate",
   duration = 3,
   resolution = "480p",
+  sourceDuration = null,
+  sourceResolution = null,
 }: CostEstimatorProps) {
-  const calculateCost = (): number => {
-    if (type === "image") {
-      return calculateImageEditCost(model, imageCount);
-    } else {
-      return calculateVideoCost(duration, resolution);
-    }
-  };
-
-  const cost = calculateCost();
+  const videoInput = { mode: videoMode, duration, resolution, sourceDuration, sourceResolution };
+  // Same seconds and resolution that generateVideo and the tracked event are costed on
+  const billed = getBilledVideo(videoInput);
+  const cost =
+    type === "image"
+      ? imageMode === "text"
+        ? calculateImageCost(model, imageCount)
+        : calculateImageEditCost(model, imageCount)
+      : calculateVideoModeCost(videoInput);
+  const pricing = getPricingTable();
+  const rate = `$${pricing.video.perSecond[billed.resolution].toFixed(2)}/s (${billed.resolution})`;
 
   return (
     <div className="cost-estimator">
@@ -39,35 +48,52 @@ export default function CostEstimator({
         {type === "image" ? (
           <>
             <span className="cost-detail">
-              1 input image + {imageCount} output image{imageCount > 1 ? "s" : ""} × $
-              {(model === "grok-imagine-image" ? PRICING.image[model].perImage : PRICING.image[model]).toFixed(2)}
+              {imageMode === "edit" ? "1 input image + " : ""}{imageCount} output image{imageCount > 1 ? "s" : ""} × $
+              {pricing.image[model].toFixed(2)}
+            </span>
+            <span className="cost-detail-note">
+              {imageMode === "edit"
+                ? "xAI bills image edits for both the input and output image(s)."
+                : "xAI bills text-to-image for the output image(s) only."}
             </span>
-            <span className="cost-detail-note">xAI bills image edits for both the input and output image(s).</span>
           </>
         ) : (
           <>
             {videoMode === "generate" ? (
               <span className="cost-detail">
-                Image input: ${PRICING.video.imageInput.toFixed(3)} + {duration}s @ ${PRICING.video.perSecond[resolution].toFixed(2)}/s ({resolution})
+                Image input: ${pricing.video.imageInput.toFixed(3)} + {billed.duration}s @ {rate}
+              </span>
+            ) : videoMode === "text" ? (
+              <span className="cost-detail">
+                {billed.duration}s @ {rate}
               </span>
             ) : videoMode === "edit" ? (
               <span className="cost-detail">
-                Source video edit estimate: pricing depends on the input video's retained duration and capped resolution.
+                {sourceDuration != null ? `Source length ${billed.duration}s` : `${billed.duration}s (source length not read yet)`} @ {rate}
               </span>
             ) : (
               <span className="cost-detail">
-                Source video estimate: ${PRICING.video.imageInput.toFixed(3)} + {duration}s @ ${PRICING.video.perSecond[resolution].toFixed(2)}/s ({resolution})
+                {billed.duration} added seconds @ {rate}
               </span>
             )}
             <span className="cost-detail-note">
               {videoMode === "generate"
                 ? "xAI bills image-to-video with image input plus per-second output pricing."
-                : videoMode === "edit"
-                  ? "xAI video edits keep the source video's duration, aspect ratio, and resolution, so this is a rough estimate."
-                  : "xAI video extensions add new seconds to the source video, so this is only an estimate."}
+                : videoMode === "text"
+                  ? "xAI bills text-to-video per second of output, with no image input fee."
+                  : videoMode === "edit"
+                    ? "xAI video edits keep the source video's duration and resolution (capped at 720p), and are billed per second of the result."
+                    : "xAI video extensions are billed for the added seconds at the source video's resolution."}
             </span>
-            {resolution === "720p" && (
-              <span className="cost-detail-note">720p is 40% more expensive than 480p</span>
+            {!(videoMode === "generate" || videoMode === "text") && sourceResolution == null && (
+              <span className="cost-detail-note">
+                The source resolution has not been read yet, so this assumes {billed.resolution}.
+              </span>
+            )}
+            {billed.resolution === "720p" && (
+              <span className="cost-detail-note">
+                720p is {Math.round((pricing.video.perSecond["720p"] / pricing.video.perSecond["480p"] - 1) * 100)}% more expensive than 480p
+              </span>
             )}
           </>
         )}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import {
+  clearHistoryFilters,
+  hasActiveHistoryFilters,
+  withHistoryFilter,
+  type HistoryFilterParam,
+} from "../lib/historyFilters";
+
+type Props = {
+  params: URLSearchParams;
+  onChange: (params: URLSearchParams) => void;
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function HistoryFiltersBar({ params, onChange }: Props) {
+  const urlSearch = params.get("q") ?? "";
+  const [search, setSearch] = useState(urlSearch);
+  const [syncedSearch, setSyncedSearch] = useState(urlSearch);
+
+  // Follow the URL when it changes underneath us (back/forward, Clear filters)
+  if (urlSearch !== syncedSearch) {
+    setSyncedSearch(urlSearch);
+    if (urlSearch !== search.trim()) setSearch(urlSearch);
+  }
+
+  useEffect(() => {
+    if (search.trim() === urlSearch) return;
+    const timer = window.setTimeout(() => onChange(withHistoryFilter(params, "q", search.trim())), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [search, urlSearch, params, onChange]);
+
+  const set = (key: HistoryFilterParam, value: string) => onChange(withHistoryFilter(params, key, value));
+
+  return (
+    <div className="history-filters">
+      <input
+        type="search"
+        className="history-filters-search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search prompts…"
+        aria-label="Search prompts"
+      />
+      <select value={params.get("type") ?? ""} onChange={(e) => set("type", e.target.value)} aria-label="Type">
+        <option value="">All types</option>
+        <option value="image">Images</option>
+        <option value="video">Videos</option>
+      </select>
+      <select value={params.get("mode") ?? ""} onChange={(e) => set("mode", e.target.value)} aria-label="Mode">
+        <option value="">All modes</option>
+        <option value="generate">Generate (from image)</option>
+        <option value="text">From text</option>
+        <option value="edit">Edit</option>
+        <option value="extend">Extend</option>
+      </select>
+      <select value={params.get("model") ?? ""} onChange={(e) => set("model", e.target.value)} aria-label="Model">
+        <option value="">All models</option>
+        <option value="grok-imagine-image">grok-imagine-image</option>
+        <option value="grok-imagine-image-pro">grok-imagine-image-pro</option>
+        <option value="grok-imagine-video">grok-imagine-video</option>
+      </select>
+      <select value={params.get("res") ?? ""} onChange={(e) => set("res", e.target.value)} aria-label="Resolution">
+        <option value="">All resolutions</option>
+        <option value="480p">480p</option>
+        <option value="720p">720p</option>
+      </select>
+      <label className="history-filters-date">
+        <span>From</span>
+        <input type="date" value={params.get("from") ?? ""} onChange={(e) => set("from", e.target.value)} />
+      </label>
+      <label className="history-filters-date">
+        <span>To</span>
+        <input type="date" value={params.get("to") ?? ""} onChange={(e) => set("to", e.target.value)} />
+      </label>
+      <select value={params.get("sort") ?? "newest"} onChange={(e) => set("sort", e.target.value)} aria-label="Sort">
+        <option value="newest">Newest first</option>
+        <option value="oldest">Oldest first</option>
+      </select>
+      {hasActiveHistoryFilters(params) && (
+        <button type="button" className="btn-deselect-all" onClick={() => onChange(clearHistoryFilters(params))}>
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
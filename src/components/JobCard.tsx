@@ -0,0 +1,75 @@
+import type { ReactNode } from "react";
+import type { JobStatus } from "../context/AppStateContext";
+import { GROK_ERROR_HINTS, GROK_ERROR_LABELS, type GrokErrorKind } from "../lib/grokErrors";
+import { formatElapsed, useElapsed } from "../lib/useElapsed";
+
+interface JobCardProps {
+  status: JobStatus;
+  prompt: string;
+  detail: string;
+  startedAt: number;
+  finishedAt: number | null;
+  progress: string | null;
+  error: string | null;
+  errorKind?: GrokErrorKind | null;
+  diagnostics?: string | null;
+  onCancel: () => void;
+  onDismiss: () => void;
+  children?: ReactNode;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  running: "⏳ Running",
+  done: "✅ Done",
+  failed: "❌ Failed",
+  cancelled: "⏹ Cancelled",
+};
+
+export default function JobCard({
+  status,
+  prompt,
+  detail,
+  startedAt,
+  finishedAt,
+  progress,
+  error,
+  errorKind,
+  diagnostics,
+  onCancel,
+  onDismiss,
+  children,
+}: JobCardProps) {
+  const elapsed = useElapsed(startedAt, finishedAt);
+  const hint = status === "failed" && errorKind ? GROK_ERROR_HINTS[errorKind] : null;
+
+  return (
+    <div className={`job-card job-card--${status}${errorKind === "moderation" ? " job-card--moderated" : ""}`}>
+      <div className="job-card-header">
+        <strong>{status === "failed" && errorKind ? `❌ ${GROK_ERROR_LABELS[errorKind]}` : STATUS_LABELS[status]}</strong>
+        <span className="job-card-meta">
+          {detail} · {formatElapsed(elapsed)}
+        </span>
+        {status === "running" ? (
+          <button type="button" onClick={onCancel} className="btn-cancel-generation">
+            Cancel
+          </button>
+        ) : (
+          <button type="button" onClick={onDismiss} className="job-card-dismiss">
+            Dismiss
+          </button>
+        )}
+      </div>
+      <p className="job-card-prompt">{prompt}</p>
+      {progress && <p className="status">{progress}</p>}
+      {error && <p className="error">{error}</p>}
+      {hint && <p className="cost-detail-note">{hint}</p>}
+      {diagnostics && (
+        <details className="diagnostics">
+          <summary>{status === "failed" ? "Show xAI error details" : "Show retried requests"}</summary>
+          <pre>{diagnostics}</pre>
+        </details>
+      )}
+      {children}
+    </div>
+  );
+}
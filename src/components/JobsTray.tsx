@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useAppState, type JobStatus } from "../context/AppStateContext";
+import { formatElapsed, useElapsed } from "../lib/useElapsed";
+
+interface TrayEntry {
+  id: string;
+  kind: "image" | "video";
+  status: JobStatus;
+  prompt: string;
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+function TrayRow({ entry, onCancel }: { entry: TrayEntry; onCancel: () => void }) {
+  const elapsed = useElapsed(entry.startedAt, entry.finishedAt);
+
+  return (
+    <li className={`jobs-tray-row job-card--${entry.status}`}>
+      <Link to={entry.kind === "image" ? "/" : "/image-to-video"} className="jobs-tray-prompt">
+        {entry.kind === "image" ? "🖼" : "🎬"} {entry.prompt}
+      </Link>
+      <span className="jobs-tray-time">{formatElapsed(elapsed)}</span>
+      {entry.status === "running" && (
+        <button type="button" className="jobs-tray-cancel" onClick={onCancel} aria-label="Cancel job">
+          ✕
+        </button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Nav dropdown listing every generation job across pages
+ */
+export default function JobsTray() {
+  const { state, cancelJob, clearFinishedJobs } = useAppState();
+  const [open, setOpen] = useState(false);
+
+  const entries: TrayEntry[] = [
+    ...state.imageToImage.jobs.map((job) => ({ ...job, kind: "image" as const })),
+    ...state.imageToVideo.jobs.map((job) => ({ ...job, kind: "video" as const })),
+  ].sort((a, b) => b.startedAt - a.startedAt);
+
+  if (entries.length === 0) return null;
+
+  const running = entries.filter((entry) => entry.status === "running").length;
+
+  return (
+    <div className="jobs-tray">
+      <button type="button" className="jobs-tray-toggle" onClick={() => setOpen((prev) => !prev)}>
+        {running > 0 ? `⏳ ${running} running` : `Jobs (${entries.length})`}
+      </button>
+      {open && (
+        <div className="jobs-tray-panel">
+          <ul className="jobs-tray-list">
+            {entries.map((entry) => (
+              <TrayRow key={entry.id} entry={entry} onCancel={() => cancelJob(entry.id)} />
+            ))}
+          </ul>
+          {entries.length > running && (
+            <button type="button" className="jobs-tray-clear" onClick={clearFinishedJobs}>
+              Clear finished
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
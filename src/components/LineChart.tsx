@@ -0,0 +1,58 @@
+type Point = {
+  label: string;
+  value: number;
+  /** Shown in the point's tooltip. */
+  detail: string;
+};
+
+type Props = {
+  points: Point[];
+  /** Top of the y axis; values are assumed to start at 0. */
+  max: number;
+  formatValue: (value: number) => string;
+  ariaLabel: string;
+};
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 52 };
+const MAX_X_LABELS = 8;
+
+/**
+ * A single series as a line with a marker per point
+ */
+export default function LineChart({ points, max, formatValue, ariaLabel }: Props) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const labelEvery = Math.ceil(points.length / MAX_X_LABELS);
+  const x = (i: number) => PADDING.left + (points.length > 1 ? (i / (points.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (Math.min(value, max) / (max || 1)) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="chart" role="img" aria-label={ariaLabel}>
+      {[0, 0.5, 1].map((fraction) => (
+        <g key={fraction}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(max * fraction)} y2={y(max * fraction)} className="chart-grid" />
+          <text x={PADDING.left - 6} y={y(max * fraction)} className="chart-axis-label" textAnchor="end" dominantBaseline="middle">
+            {formatValue(max * fraction)}
+          </text>
+        </g>
+      ))}
+
+      <polyline points={points.map((point, i) => `${x(i)},${y(point.value)}`).join(" ")} className="chart-line" />
+
+      {points.map((point, i) => (
+        <g key={point.label}>
+          <circle cx={x(i)} cy={y(point.value)} r={3.5} className="chart-point">
+            <title>{`${point.label}: ${point.detail}`}</title>
+          </circle>
+          {i % labelEvery === 0 && (
+            <text x={x(i)} y={HEIGHT - 8} className="chart-axis-label" textAnchor="middle">
+              {point.label}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { getLineage, getModeLabel, type HistoryItem, type LineageNode } from "../lib/history";
+import { getBranchOptions, type BranchAction } from "../lib/historyBranch";
+
+type Props = {
+  itemId: string;
+  /** Bump to reload the tree after history changes. */
+  reloadKey: number;
+  onSelect: (item: HistoryItem) => void;
+  onBranch: (item: HistoryItem, action: BranchAction) => void;
+};
+
+function countNodes(node: LineageNode): number {
+  return node.children.reduce((sum, child) => sum + countNodes(child), 1);
+}
+
+export default function LineageTree({ itemId, reloadKey, onSelect, onBranch }: Props) {
+  const [lineage, setLineage] = useState<{ itemId: string; root: LineageNode | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void getLineage(itemId).then((root) => {
+      if (!cancelled) setLineage({ itemId, root });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, reloadKey]);
+
+  const root = lineage?.itemId === itemId ? lineage.root : null;
+  // A lone item has no lineage worth drawing; its branch actions sit with the other detail actions
+  if (!root || countNodes(root) < 2) return null;
+
+  const renderNode = (node: LineageNode) => {
+    const { item } = node;
+    return (
+      <li key={item.id}>
+        <div className={`lineage-node ${item.id === itemId ? "current" : ""}`}>
+          <button type="button" className="lineage-node-main" onClick={() => onSelect(item)} title={item.prompt}>
+            <img src={item.resultUrl} alt="" className="lineage-thumb" />
+            <span className="lineage-node-text">
+              <span className="lineage-node-label">
+                {item.type === "video" ? "🎥" : "🖼️"} {getModeLabel(item) ?? (item.type === "video" ? "Video" : "Image")}
+              </span>
+              <span className="lineage-node-prompt">{item.prompt}</span>
+            </span>
+          </button>
+          <div className="lineage-node-actions">
+            {getBranchOptions(item).map((option) => (
+              <button
+                key={option.action}
+                type="button"
+                onClick={() => onBranch(item, option.action)}
+                disabled={option.disabledReason !== null}
+                title={option.disabledReason ?? `${option.label} as a new branch`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {node.children.length > 0 && <ul>{node.children.map(renderNode)}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <div className="lineage">
+      <h3>Lineage</h3>
+      <ul className="lineage-tree">{renderNode(root)}</ul>
+    </div>
+  );
+}
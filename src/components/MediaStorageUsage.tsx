@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { evictMediaOlderThan, formatBytes, getMediaUsage, type MediaUsage } from "../lib/mediaStore";
+
+type Props = {
+  /** Bump to re-read usage after history items (and their media) are deleted. */
+  refreshKey: number;
+  /** Called after old media was evicted so the page can reload anything it shows. */
+  onEvicted?: () => void;
+};
+
+const EVICTION_OPTIONS = [
+  { days: 7, label: "older than 7 days" },
+  { days: 30, label: "older than 30 days" },
+  { days: 90, label: "older than 90 days" },
+];
+
+export default function MediaStorageUsage({ refreshKey, onEvicted }: Props) {
+  const [usage, setUsage] = useState<MediaUsage | null>(null);
+  const [evictDays, setEvictDays] = useState(30);
+  const [evicting, setEvicting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    void getMediaUsage().then((next) => {
+      if (!cancelled) setUsage(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, reloadKey]);
+
+  if (!usage) return null;
+
+  const percent =
+    usage.originUsage !== null && usage.originQuota ? Math.min(100, (usage.originUsage / usage.originQuota) * 100) : null;
+
+  const handleEvict = async () => {
+    const option = EVICTION_OPTIONS.find((o) => o.days === evictDays);
+    if (!confirm(`Remove full-size media ${option?.label ?? ""}? Thumbnails stay in history.`)) return;
+
+    setEvicting(true);
+    const removed = await evictMediaOlderThan(Date.now() - evictDays * 86_400_000);
+    setEvicting(false);
+    setMessage(removed > 0 ? `Removed ${removed} file${removed > 1 ? "s" : ""}.` : "Nothing to remove.");
+    setReloadKey((key) => key + 1);
+    onEvicted?.();
+  };
+
+  return (
+    <div className="media-usage">
+      <div className="media-usage-header">
+        <strong>Stored media</strong>
+        <span className="media-usage-summary">
+          {usage.count} file{usage.count === 1 ? "" : "s"} · {formatBytes(usage.bytes)}
+          {usage.originQuota ? ` · ${formatBytes(usage.originUsage ?? 0)} of ${formatBytes(usage.originQuota)} browser quota used` : ""}
+        </span>
+      </div>
+      {percent !== null && (
+        <div className="upload-progress-track" aria-hidden="true">
+          <div
+            className={`upload-progress-fill ${percent > 80 ? "media-usage-fill--high" : ""}`}
+            style={{ width: `${Math.max(1, percent)}%` }}
+          />
+        </div>
+      )}
+      {usage.count > 0 && (
+        <div className="media-usage-actions">
+          <select value={evictDays} onChange={(e) => setEvictDays(Number(e.target.value))} disabled={evicting}>
+            {EVICTION_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={handleEvict} disabled={evicting} className="btn-clear-history">
+            {evicting ? "Removing…" : "Free up space"}
+          </button>
+          {message && <span className="cost-detail-note">{message}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
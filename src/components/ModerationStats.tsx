@@ -1,7 +1,6 @@
 import { useState, useEffect } from "react";
 import { getModerationStats, clearModerationHistory } from "../lib/moderationTracking";
 import type { ModerationStats as Stats } from "../lib/moderationTracking";
-import { PRICING } from "../lib/pricing";
 
 interface ModerationStatsProps {
   filterType?: 'image' | 'video'; // Optional filter to show only specific type
@@ -36,23 +35,19 @@ export default function ModerationStats({ filterType }: ModerationStatsProps) {
     if (!stats) return null;
 
     if (filterType === 'image') {
-      const perImage = PRICING.image["grok-imagine-image"].perImage;
-      const editBaseline = perImage * 2; // one source image + one generated output image
       return {
         totalAttempts: stats.imageAttempts,
         totalModerated: stats.imageModerated,
-        totalCost: stats.imageAttempts * editBaseline,
-        totalWasted: stats.imageModerated * editBaseline,
+        totalCost: stats.imageCost,
+        totalWasted: stats.imageWasted,
         moderationRate: stats.imageModerationRate,
       };
     } else if (filterType === 'video') {
-      // For videos, we'll use an average cost estimate (3s @ 480p as baseline)
-      const avgVideoCost = PRICING.video.imageInput + (PRICING.video.perSecond["480p"] * 3);
       return {
         totalAttempts: stats.videoAttempts,
         totalModerated: stats.videoModerated,
-        totalCost: stats.videoAttempts * avgVideoCost, // Approximate
-        totalWasted: stats.videoModerated * avgVideoCost, // Approximate
+        totalCost: stats.videoCost,
+        totalWasted: stats.videoWasted,
         moderationRate: stats.videoModerationRate,
       };
     }
@@ -120,6 +115,9 @@ export default function ModerationStats({ filterType }: ModerationStatsProps) {
 
       <div className="moderation-fee-note">
         ℹ️ Moderated content costs include generation fee + $0.05 moderation fee
+        {!filterType && stats && stats.totalCancelled > 0 && (
+          <> · {stats.totalCancelled} cancelled run{stats.totalCancelled > 1 ? "s" : ""} not counted</>
+        )}
       </div>
 
       {showDetails && !filterType && stats && (
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import {
+  getNotificationSettings,
+  isNotificationSupported,
+  JOB_OUTCOME_LABELS,
+  playCompletionSound,
+  requestNotificationPermission,
+  saveNotificationSettings,
+  unlockCompletionSound,
+  type JobOutcome,
+  type NotificationSettings as Settings,
+} from "../lib/notifications";
+
+/**
+ * Settings for job notifications, the completion sound and the tab title and favicon badge
+ */
+export default function NotificationSettings() {
+  const [settings, setSettings] = useState<Settings>(() => getNotificationSettings());
+  const [permission, setPermission] = useState<NotificationPermission | null>(() =>
+    isNotificationSupported() ? Notification.permission : null
+  );
+
+  const update = (changes: Partial<Settings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveNotificationSettings(next);
+  };
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled) {
+      const result = await requestNotificationPermission();
+      setPermission(result);
+      if (result !== "granted") return;
+    }
+    update({ enabled });
+  };
+
+  const toggleSound = (sound: boolean) => {
+    // Start audio while we have the click, so the chime can play later
+    if (sound) void unlockCompletionSound();
+    update({ sound });
+  };
+
+  return (
+    <div className="auto-save-settings notification-settings">
+      <div className="auto-save-header">
+        <h3>🔔 Notifications</h3>
+        <label className="auto-save-toggle">
+          <input
+            type="checkbox"
+            checked={settings.enabled && permission === "granted"}
+            onChange={(e) => void toggleNotifications(e.target.checked)}
+            disabled={permission === null}
+          />
+          <span>{settings.enabled && permission === "granted" ? "Enabled" : "Disabled"}</span>
+        </label>
+      </div>
+
+      {permission === null ? (
+        <p className="auto-save-hint">⚠️ This browser does not support notifications.</p>
+      ) : permission === "denied" ? (
+        <p className="auto-save-hint">
+          ⚠️ Notifications are blocked for this site. Allow them in the browser's site settings, then enable them here.
+        </p>
+      ) : (
+        <p className="auto-save-hint">
+          Get a browser notification when a job finishes while this tab is in the background.
+        </p>
+      )}
+
+      <div className="notification-options">
+        <span>Notify when a job is</span>
+        {(Object.keys(JOB_OUTCOME_LABELS) as JobOutcome[]).map((outcome) => (
+          <label key={outcome}>
+            <input
+              type="checkbox"
+              checked={settings.outcomes[outcome]}
+              disabled={!settings.enabled}
+              onChange={(e) => update({ outcomes: { ...settings.outcomes, [outcome]: e.target.checked } })}
+            />{" "}
+            {JOB_OUTCOME_LABELS[outcome].toLowerCase()}
+          </label>
+        ))}
+      </div>
+
+      <div className="notification-options">
+        <label>
+          <input type="checkbox" checked={settings.sound} onChange={(e) => toggleSound(e.target.checked)} />{" "}
+          Play a sound when a job completes
+        </label>
+        <button type="button" className="btn-link" onClick={() => void playCompletionSound()}>
+          Test sound
+        </button>
+      </div>
+
+      <div className="notification-options">
+        <label>
+          <input type="checkbox" checked={settings.tabTitle} onChange={(e) => update({ tabTitle: e.target.checked })} />{" "}
+          Show running jobs in the tab title
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.faviconBadge}
+            onChange={(e) => update({ faviconBadge: e.target.checked })}
+          />{" "}
+          Badge the tab icon while jobs run
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useRef, useState } from "react";
+import { recomputeModerationCosts } from "../lib/moderationTracking";
+import {
+  DEFAULT_PRICING,
+  getCustomPricingTables,
+  getPricingTable,
+  parsePricingTables,
+  saveCustomPricingTables,
+  toPricingDate,
+  type PricingTable,
+} from "../lib/pricing";
+
+type PriceField = {
+  label: string;
+  get: (table: PricingTable) => number;
+  set: (table: PricingTable, value: number) => PricingTable;
+};
+
+const PRICE_FIELDS: PriceField[] = [
+  {
+    label: "Image",
+    get: (t) => t.image["grok-imagine-image"],
+    set: (t, v) => ({ ...t, image: { ...t.image, "grok-imagine-image": v } }),
+  },
+  {
+    label: "Image Pro",
+    get: (t) => t.image["grok-imagine-image-pro"],
+    set: (t, v) => ({ ...t, image: { ...t.image, "grok-imagine-image-pro": v } }),
+  },
+  {
+    label: "Video image input",
+    get: (t) => t.video.imageInput,
+    set: (t, v) => ({ ...t, video: { ...t.video, imageInput: v } }),
+  },
+  {
+    label: "480p / s",
+    get: (t) => t.video.perSecond["480p"],
+    set: (t, v) => ({ ...t, video: { ...t.video, perSecond: { ...t.video.perSecond, "480p": v } } }),
+  },
+  {
+    label: "720p / s",
+    get: (t) => t.video.perSecond["720p"],
+    set: (t, v) => ({ ...t, video: { ...t.video, perSecond: { ...t.video.perSecond, "720p": v } } }),
+  },
+  {
+    label: "Moderation fee",
+    get: (t) => t.moderationFee,
+    set: (t, v) => ({ ...t, moderationFee: v }),
+  },
+];
+
+/**
+ * Editor for versioned pricing tables. Each table applies from its effective date until the next one.
+ */
+export default function PricingSettings() {
+  const [tables, setTables] = useState<PricingTable[]>(() => getCustomPricingTables());
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const current = getPricingTable();
+
+  const update = (next: PricingTable[]) => {
+    const sorted = [...next].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    setTables(sorted);
+    saveCustomPricingTables(sorted);
+  };
+
+  const updateTable = (id: string, changes: (table: PricingTable) => PricingTable) => {
+    update(tables.map((table) => (table.id === id ? changes(table) : table)));
+  };
+
+  const addTable = () => {
+    update([...tables, { ...current, id: crypto.randomUUID(), effectiveFrom: toPricingDate(Date.now()), label: "" }]);
+    setMessage(null);
+  };
+
+  const loadFile = async (file: File) => {
+    try {
+      const loaded = parsePricingTables(await file.text());
+      // A loaded table replaces any existing one with the same effective date
+      const dates = new Set(loaded.map((table) => table.effectiveFrom));
+      update([...tables.filter((table) => !dates.has(table.effectiveFrom)), ...loaded]);
+      setMessage(`Loaded ${loaded.length} pricing table${loaded.length === 1 ? "" : "s"} from ${file.name}.`);
+    } catch (err) {
+      setMessage(`Could not load ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const exportFile = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify([DEFAULT_PRICING, ...tables], null, 2)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "grok-pricing.json";
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const recompute = () => {
+    const changed = recomputeModerationCosts();
+    setMessage(
+      changed === 0
+        ? "Every tracked generation already matches its pricing table."
+        : `Re-priced ${changed} tracked generation${changed === 1 ? "" : "s"}.`
+    );
+  };
+
+  const renderRow = (table: PricingTable, editable: boolean) => (
+    <tr key={table.id} className={table.id === current.id ? "pricing-row--current" : undefined}>
+      <td>
+        {editable ? (
+          <input
+            type="date"
+            value={table.effectiveFrom}
+            onChange={(e) => {
+              if (e.target.value) updateTable(table.id, (t) => ({ ...t, effectiveFrom: e.target.value }));
+            }}
+          />
+        ) : (
+          table.effectiveFrom
+        )}
+        {table.id === current.id && <span className="batch-attempts"> · current</span>}
+      </td>
+      <td>
+        {editable ? (
+          <input
+            type="text"
+            value={table.label ?? ""}
+            placeholder="Note"
+            onChange={(e) => updateTable(table.id, (t) => ({ ...t, label: e.target.value }))}
+          />
+        ) : (
+          table.label
+        )}
+      </td>
+      {PRICE_FIELDS.map((field) => (
+        <td key={field.label}>
+          {editable ? (
+            <input
+              type="number"
+              min={0}
+              step={0.001}
+              value={field.get(table)}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (e.target.value !== "" && value >= 0) updateTable(table.id, (t) => field.set(t, value));
+              }}
+            />
+          ) : (
+            `$${field.get(table).toFixed(3)}`
+          )}
+        </td>
+      ))}
+      <td>
+        {editable && (
+          <button type="button" className="btn-link" onClick={() => update(tables.filter((other) => other.id !== table.id))}>
+            Remove
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="auto-save-settings pricing-settings">
+      <div className="auto-save-header">
+        <h3>🏷️ Pricing</h3>
+        <div className="batch-run-actions">
+          <button type="button" onClick={addTable}>
+            Add price change
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void loadFile(file);
+            }}
+          />
+          <button type="button" onClick={() => fileInputRef.current?.click()}>
+            Load JSON
+          </button>
+          <button type="button" onClick={exportFile}>
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <p className="auto-save-hint">
+        USD prices, each table in effect from its date until the next one. Estimates use today's table; every tracked
+        generation is costed with the table in effect when it ran.
+      </p>
+
+      <div className="comparison-grid-wrapper">
+        <table className="batch-table pricing-table">
+          <thead>
+            <tr>
+              <th>Effective from</th>
+              <th>Note</th>
+              {PRICE_FIELDS.map((field) => (
+                <th key={field.label}>{field.label}</th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {renderRow(DEFAULT_PRICING, false)}
+            {tables.map((table) => renderRow(table, true))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="batch-run-actions">
+        <button type="button" onClick={recompute} title="Re-price past generations with the table in effect when each ran">
+          Recompute past costs
+        </button>
+      </div>
+      {message && <p className="cost-detail-note">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  clearRequestLog,
+  getRequestLog,
+  requestLogToHar,
+  subscribeRequestLog,
+  toCurl,
+  type RequestLogEntry,
+} from "../lib/requestLog";
+
+function formatStatus(entry: RequestLogEntry): string {
+  if (entry.status === null) return "…";
+  return entry.status === 0 ? "ERR" : String(entry.status);
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+  const lines = Object.entries(headers).map(([name, value]) => `${name}: ${value}`);
+  return lines.length > 0 ? lines.join("\n") : "(none)";
+}
+
+/** Pretty-print JSON bodies; anything else (or truncated JSON) is shown as it is. */
+function formatBody(body: string | null): string {
+  if (body === null) return "(none)";
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+/** Path and query of a logged URL, for the list. */
+function shortUrl(url: string): string {
+  const parsed = new URL(url, window.location.href);
+  const proxied = parsed.pathname === "/api/proxy-image" ? parsed.searchParams.get("url") : null;
+  return proxied ? `proxy ← ${proxied}` : `${parsed.pathname}${parsed.search}`;
+}
+
+function RequestDetails({ entry }: { entry: RequestLogEntry }) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div className="request-inspector-details">
+      <div className="batch-run-actions">
+        <button
+          type="button"
+          onClick={() => {
+            void navigator.clipboard.writeText(toCurl(entry));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+          }}
+        >
+          {copied ? "✅ Copied!" : "Copy as curl"}
+        </button>
+      </div>
+      <p className="cost-detail-note">
+        {entry.method} {entry.url} · {new Date(entry.startedAt).toLocaleTimeString()}
+        {entry.waitMs !== null && ` · headers after ${entry.waitMs} ms`}
+        {entry.durationMs !== null && ` · done after ${entry.durationMs} ms`}
+      </p>
+      {entry.error && <p className="error">{entry.error}</p>}
+      <h4>Request headers</h4>
+      <pre>{formatHeaders(entry.requestHeaders)}</pre>
+      <h4>Request body{entry.requestBodyTruncated && " (truncated)"}</h4>
+      <pre>{formatBody(entry.requestBody)}</pre>
+      <h4>
+        Response {entry.status !== null && entry.status > 0 && `${entry.status} ${entry.statusText}`}
+      </h4>
+      <pre>{formatHeaders(entry.responseHeaders)}</pre>
+      <h4>Response body{entry.responseBodyTruncated && " (truncated)"}</h4>
+      <pre>
+        {entry.responseBody === null && entry.responseSize !== null
+          ? `(binary, ${entry.responseSize} bytes)`
+          : formatBody(entry.responseBody)}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Developer drawer listing recent xAI requests (see requestLog.ts). Toggle it with Ctrl+Shift+X;
+ * development builds also show a button for it.
+ */
+export default function RequestInspector() {
+  const entries = useSyncExternalStore(subscribeRequestLog, getRequestLog);
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const selected = entries.find((entry) => entry.id === selectedId) ?? null;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === "x") {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const exportHar = () => {
+    const url = URL.createObjectURL(new Blob([requestLogToHar(entries)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `grok-requests-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.har`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <>
+      {import.meta.env.DEV && !open && (
+        <button type="button" className="request-inspector-toggle" onClick={() => setOpen(true)} title="Request inspector (Ctrl+Shift+X)">
+          🐞 {entries.length}
+        </button>
+      )}
+      {open && (
+        <aside className="request-inspector" aria-label="Request inspector">
+          <div className="auto-save-header">
+            <h3>🐞 Requests ({entries.length})</h3>
+            <div className="batch-run-actions">
+              <button type="button" onClick={exportHar} disabled={entries.length === 0}>
+                Export HAR
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  clearRequestLog();
+                  setSelectedId(null);
+                }}
+                disabled={entries.length === 0}
+              >
+                Clear
+              </button>
+              <button type="button" onClick={() => setOpen(false)} aria-label="Close request inspector">
+                ✕
+              </button>
+            </div>
+          </div>
+          <p className="cost-detail-note">
+            The last requests to xAI and the media proxy in this tab. API keys are masked and long bodies cut short,
+            so the HAR file is safe to attach to a bug report.
+          </p>
+          {entries.length === 0 ? (
+            <p className="empty-state">No requests yet.</p>
+          ) : (
+            <ul className="request-inspector-list">
+              {[...entries].reverse().map((entry) => (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    className={`request-inspector-row${entry.id === selectedId ? " request-inspector-row--selected" : ""}${
+                      entry.status === 0 || (entry.status ?? 0) >= 400 ? " stat-danger-text" : ""
+                    }`}
+                    onClick={() => setSelectedId(entry.id === selectedId ? null : entry.id)}
+                  >
+                    <span className="request-inspector-status">{formatStatus(entry)}</span>
+                    <span className="request-inspector-method">{entry.method}</span>
+                    <span className="request-inspector-url">{shortUrl(entry.url)}</span>
+                    <span className="request-inspector-time">{entry.durationMs !== null ? `${entry.durationMs} ms` : ""}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {selected && <RequestDetails key={selected.id} entry={selected} />}
+        </aside>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,71 @@
+type Series = {
+  name: string;
+  color: string;
+  values: number[];
+};
+
+type Props = {
+  labels: string[];
+  series: Series[];
+  formatValue: (value: number) => string;
+  ariaLabel: string;
+};
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 8, bottom: 28, left: 52 };
+// At most this many x-axis labels; the rest are skipped evenly
+const MAX_X_LABELS = 8;
+
+/**
+ * Bars per label with the series stacked on top of each other
+ */
+export default function StackedBarChart({ labels, series, formatValue, ariaLabel }: Props) {
+  const totals = labels.map((_, i) => series.reduce((sum, s) => sum + s.values[i], 0));
+  const max = Math.max(...totals, 0) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / Math.max(labels.length, 1);
+  const barWidth = Math.max(2, slot * 0.7);
+  const labelEvery = Math.ceil(labels.length / MAX_X_LABELS);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="chart" role="img" aria-label={ariaLabel}>
+      {[0, 0.5, 1].map((fraction) => (
+        <g key={fraction}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(max * fraction)} y2={y(max * fraction)} className="chart-grid" />
+          <text x={PADDING.left - 6} y={y(max * fraction)} className="chart-axis-label" textAnchor="end" dominantBaseline="middle">
+            {formatValue(max * fraction)}
+          </text>
+        </g>
+      ))}
+
+      {labels.map((label, i) => {
+        const x = PADDING.left + slot * i + (slot - barWidth) / 2;
+        let base = 0;
+        return (
+          <g key={label}>
+            {series.map((s) => {
+              const value = s.values[i];
+              if (value <= 0) return null;
+              const top = y(base + value);
+              const height = y(base) - top;
+              base += value;
+              return (
+                <rect key={s.name} x={x} y={top} width={barWidth} height={height} fill={s.color}>
+                  <title>{`${label} · ${s.name}: ${formatValue(value)}`}</title>
+                </rect>
+              );
+            })}
+            {i % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={HEIGHT - 8} className="chart-axis-label" textAnchor="middle">
+                {label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
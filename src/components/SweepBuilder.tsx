@@ -0,0 +1,156 @@
+import { useCallback, useState } from "react";
+import ImageUpload from "./ImageUpload";
+import type { BatchMode, BatchTask } from "../lib/batch";
+import type { ImageModel } from "../lib/pricing";
+import { blobToDataUrl } from "../lib/mediaStore";
+import {
+  SWEEP_CONFIRM_THRESHOLD,
+  expandSweep,
+  getSweepCost,
+  getSweepSize,
+  parseSweepCounts,
+  parseSweepDurations,
+  type SweepSpec,
+} from "../lib/sweep";
+
+type Props = {
+  onStart: (tasks: BatchTask[]) => void;
+};
+
+const RESOLUTIONS: Array<"480p" | "720p"> = ["480p", "720p"];
+const MODELS: ImageModel[] = ["grok-imagine-image", "grok-imagine-image-pro"];
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export default function SweepBuilder({ onStart }: Props) {
+  const [image, setImage] = useState<string | null>(null);
+  const [mode, setMode] = useState<BatchMode>("image-to-video");
+  const [promptText, setPromptText] = useState("");
+  const [durationText, setDurationText] = useState("3, 6");
+  const [resolutions, setResolutions] = useState<Array<"480p" | "720p">>(["480p"]);
+  const [models, setModels] = useState<ImageModel[]>(["grok-imagine-image"]);
+  const [countText, setCountText] = useState("1");
+
+  const onFileSelect = useCallback(async (file: File) => {
+    setImage(await blobToDataUrl(file));
+  }, []);
+
+  const prompts = promptText.split("\n").map((line) => line.trim()).filter(Boolean);
+  const durations = parseSweepDurations(durationText);
+  const counts = parseSweepCounts(countText);
+  const spec: SweepSpec = {
+    mode,
+    prompts,
+    durations: durations ?? [],
+    resolutions,
+    models,
+    counts: counts ?? [],
+  };
+  const size = getSweepSize(spec);
+  const cost = getSweepCost(spec);
+
+  const problems: string[] = [];
+  if (!image) problems.push("Upload an input image.");
+  if (prompts.length === 0) problems.push("Add at least one prompt variant.");
+  if (mode === "image-to-video") {
+    if (!durations || durations.length === 0) problems.push("Durations must be whole seconds from 1 to 15, separated by commas.");
+    if (resolutions.length === 0) problems.push("Pick at least one resolution.");
+  } else {
+    if (models.length === 0) problems.push("Pick at least one model.");
+    if (!counts || counts.length === 0) problems.push("Counts must be whole numbers from 1 to 10, separated by commas.");
+  }
+
+  const handleStart = () => {
+    if (!image || problems.length > 0) return;
+    if (
+      cost > SWEEP_CONFIRM_THRESHOLD &&
+      !confirm(`This sweep runs ${size} generations and costs about $${cost.toFixed(2)}. Start it?`)
+    ) {
+      return;
+    }
+    onStart(expandSweep(spec, image));
+  };
+
+  return (
+    <div className="form sweep-builder">
+      <ImageUpload preview={image} onFileSelect={onFileSelect} label="Input image" />
+
+      <label className="block">
+        <span>Mode</span>
+        <select value={mode} onChange={(e) => setMode(e.target.value as BatchMode)}>
+          <option value="image-to-video">Image to video</option>
+          <option value="image-edit">Image edit</option>
+        </select>
+      </label>
+
+      <label className="block">
+        <span>Prompt variants (one per line)</span>
+        <textarea
+          value={promptText}
+          onChange={(e) => setPromptText(e.target.value)}
+          rows={4}
+          placeholder={"Slow zoom in, golden hour\nHandheld pan, overcast light"}
+        />
+      </label>
+
+      {mode === "image-to-video" ? (
+        <>
+          <label className="block">
+            <span>Durations (seconds, comma-separated)</span>
+            <input type="text" value={durationText} onChange={(e) => setDurationText(e.target.value)} />
+          </label>
+          <fieldset className="block sweep-options">
+            <legend>Resolutions</legend>
+            {RESOLUTIONS.map((resolution) => (
+              <label key={resolution}>
+                <input
+                  type="checkbox"
+                  checked={resolutions.includes(resolution)}
+                  onChange={() => setResolutions(toggle(resolutions, resolution))}
+                />{" "}
+                {resolution}
+              </label>
+            ))}
+          </fieldset>
+        </>
+      ) : (
+        <>
+          <fieldset className="block sweep-options">
+            <legend>Models</legend>
+            {MODELS.map((model) => (
+              <label key={model}>
+                <input type="checkbox" checked={models.includes(model)} onChange={() => setModels(toggle(models, model))} />{" "}
+                {model}
+              </label>
+            ))}
+          </fieldset>
+          <label className="block">
+            <span>Images per request (comma-separated)</span>
+            <input type="text" value={countText} onChange={(e) => setCountText(e.target.value)} />
+          </label>
+        </>
+      )}
+
+      <div className="cost-estimator">
+        <span>
+          {size} generation{size === 1 ? "" : "s"} ({prompts.length} prompt{prompts.length === 1 ? "" : "s"} × {size / Math.max(1, prompts.length)} setting
+          {size / Math.max(1, prompts.length) === 1 ? "" : "s"}):
+        </span>{" "}
+        <span className="cost-estimator-value">${cost.toFixed(3)} USD</span>
+        {cost > SWEEP_CONFIRM_THRESHOLD && (
+          <p className="cost-detail-note">Over ${SWEEP_CONFIRM_THRESHOLD.toFixed(2)}; you'll be asked to confirm.</p>
+        )}
+      </div>
+
+      {problems.map((problem) => (
+        <p key={problem} className="error">{problem}</p>
+      ))}
+
+      <button type="button" onClick={handleStart} disabled={problems.length > 0}>
+        Start sweep ({size} · ${cost.toFixed(2)})
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import type { VideoJob } from "../context/AppStateContext";
+import type { VideoProgressPhase } from "../lib/grokApi";
+import { formatElapsed, useElapsed } from "../lib/useElapsed";
+
+interface VideoJobProgressProps {
+  job: Pick<VideoJob, "phase" | "download" | "expectedMs" | "startedAt">;
+}
+
+const PHASE_LABELS: Record<VideoProgressPhase, string> = {
+  queued: "Queued at xAI",
+  processing: "Rendering",
+  downloading: "Downloading",
+  done: "Done",
+};
+
+// Time-based progress stops here until the download starts, so an overrunning job never looks finished
+const MAX_ESTIMATED_FRACTION = 0.95;
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1_048_576).toFixed(1)} MB`;
+}
+
+/**
+ * Progress bar for a running video job: the current phase, elapsed time and an ETA from past video durations.
+ * Without any timed history the bar is indeterminate until the download reports its size.
+ */
+export default function VideoJobProgress({ job }: VideoJobProgressProps) {
+  const elapsed = useElapsed(job.startedAt, null);
+  const { download, expectedMs } = job;
+
+  let fraction: number | null = null;
+  // Nothing to base an ETA on until a video has been timed
+  let eta = "no ETA yet";
+  if (job.phase === "downloading" && download?.totalBytes) {
+    fraction = (download.loadedBytes ?? 0) / download.totalBytes;
+  } else if (expectedMs) {
+    fraction = Math.min(elapsed / expectedMs, MAX_ESTIMATED_FRACTION);
+    eta = elapsed < expectedMs ? `about ${formatElapsed(expectedMs - elapsed)} left` : "taking longer than usual";
+  }
+
+  const label = job.phase ? PHASE_LABELS[job.phase] : "Submitting";
+  const detail =
+    job.phase === "downloading" && download
+      ? download.totalBytes
+        ? `${formatMegabytes(download.loadedBytes ?? 0)} of ${formatMegabytes(download.totalBytes)}`
+        : formatMegabytes(download.loadedBytes ?? 0)
+      : eta;
+
+  return (
+    <div className="video-job-progress">
+      <div
+        className={`video-job-progress-track${fraction === null ? " video-job-progress-track--indeterminate" : ""}`}
+        role="progressbar"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={fraction === null ? undefined : Math.round(fraction * 100)}
+      >
+        <div className="video-job-progress-bar" style={fraction === null ? undefined : { width: `${fraction * 100}%` }} />
+      </div>
+      <div className="video-job-progress-label">
+        {label} · {formatElapsed(elapsed)} · {detail}
+      </div>
+    </div>
+  );
+}
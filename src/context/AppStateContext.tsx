@@ -1,45 +1,132 @@
-import { createContext, useContext, useState } from "react";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
 import type { ReactNode } from "react";
-import { imageEdit, imageToVideo, videoEdit, videoExtend, getLastXaiApiErrorTrace } from "../lib/grokApi";
-import { addToHistory, createThumbnail, createVideoThumbnail } from "../lib/history";
+import { imageEdit, textToImage, imageToVideo, textToVideo, videoEdit, videoExtend, resumeVideoJob, isVideoJobSettled, getErrorDiagnostics, describeRetries, setGrokApiKey, isAbortError, type ImageEditResult, type VideoAspectRatio, type VideoProgress, type VideoProgressPhase, type VideoResult, type VideoSourceInfo } from "../lib/grokApi";
+import { addToHistory, createThumbnail, createVideoThumbnail, estimateVideoGenerationMs, readVideoMetadata } from "../lib/history";
+import { inputMediaId, saveMedia } from "../lib/mediaStore";
+import { saveVideoJob, deleteVideoJob, getUnfinishedVideoJobs, MAX_RESUME_ATTEMPTS, type VideoJobRecord } from "../lib/videoJobs";
+import { getApiKeyFromCookie } from "../lib/cookies";
 import { autoSaveFile, generateAutoSaveFilename, isAutoSaveEnabled } from "../lib/autoSave";
 import { assessModerationRiskWithGrok, type RiskAssessment } from "../lib/promptAnalysis";
 import { buildVideoSourceProxyUrl } from "../lib/videoSourceProxy";
 import { rewritePromptWithGrok, type PromptRewriteResult } from "../lib/grokPromptRewrite";
+import { getGrokErrorKind, ModerationError, type GrokErrorKind } from "../lib/grokErrors";
+import { getBatchCharge, type BatchRowRun, type BatchTask } from "../lib/batch";
+import { checkBudget, reserveBudget, type BudgetCharge, type BudgetCheck } from "../lib/budget";
+import { calculateImageCost, calculateImageEditCost, calculateVideoModeCost, getBilledVideo, toVideoResolution } from "../lib/pricing";
+import { useJobNotifications } from "../lib/useJobNotifications";
 
 
-// State for Image-to-Image page
-interface ImageToImageState {
-  preview: string | null;
+export type JobStatus = "running" | "done" | "failed" | "cancelled";
+
+export type ImageMode = "edit" | "text";
+
+export type VideoMode = "generate" | "edit" | "extend" | "text";
+
+// One image generation started from the Image-to-Image page
+export interface ImageJob {
+  id: string;
+  status: JobStatus;
   prompt: string;
+  mode: ImageMode;
   model: "grok-imagine-image" | "grok-imagine-image-pro";
   imageCount: number;
+  startedAt: number;
+  finishedAt: number | null;
+  progress: string | null;
+  error: string | null;
+  // Kind of xAI failure, so the job can say what to do about it
+  errorKind: GrokErrorKind | null;
+  // Retried requests and the failed xAI call, shown under the job
+  diagnostics: string | null;
   resultUrls: string[];
   sourceUrls: string[];
-  loading: boolean;
+  // History ids of the saved results, in the same order as resultUrls
+  historyIds: string[];
+}
+
+// One video generation started from the Image-to-Video page (or resumed after a reload)
+export interface VideoJob {
+  id: string;
+  status: JobStatus;
+  prompt: string;
+  mode: VideoMode;
+  duration?: number;
+  resolution?: "480p" | "720p";
+  aspectRatio?: VideoAspectRatio;
+  startedAt: number;
+  finishedAt: number | null;
+  progress: string | null;
+  // Latest progress event from grokApi, null until xAI has accepted the job
+  phase: VideoProgressPhase | null;
+  // Bytes received while the finished video downloads
+  download: Pick<VideoProgress, "loadedBytes" | "totalBytes"> | null;
+  // How long similar videos took before (see estimateVideoGenerationMs), null without any timed history
+  expectedMs: number | null;
+  error: string | null;
+  errorKind: GrokErrorKind | null;
+  diagnostics: string | null;
+  resultUrl: string | null;
+  sourceUrl: string | null;
+  // History id of the saved result, once it has been stored
+  historyId: string | null;
+  requestId: string | null;
+  resumed: boolean;
+}
+
+// State for Image-to-Image page
+export interface ImageToImageState {
+  mode: ImageMode;
+  preview: string | null;
+  // History item the preview image came from, so results link back to it
+  previewHistoryId: string | null;
+  prompt: string;
+  model: "grok-imagine-image" | "grok-imagine-image-pro";
+  imageCount: number;
   error: string | null;
+  jobs: ImageJob[];
 }
 
 // State for Image-to-Video page
-interface ImageToVideoState {
-  mode: "generate" | "edit" | "extend";
+export interface ImageToVideoState {
+  mode: VideoMode;
   preview: string | null;
+  // History items the preview image and source video came from, so results link back to them
+  previewHistoryId: string | null;
+  sourceVideoHistoryId: string | null;
   sourceVideoUrl: string;
   sourceVideoName: string | null;
   sourceVideoKey: string | null;
+  // Length and resolution read from the source video at `url`; stale once the source URL changes
+  sourceVideoInfo: (VideoSourceInfo & { url: string }) | null;
   prompt: string;
   duration: number;
   resolution: "480p" | "720p";
-  resultUrl: string | null;
-  sourceUrl: string | null;
-  loading: boolean;
+  // null keeps the input image's framing (or the API default for text-to-video)
+  aspectRatio: VideoAspectRatio | null;
   error: string | null;
-  diagnostics: string | null;
+  jobs: VideoJob[];
+}
+
+// State for the Batch page; rows stay here while the batch runs so it survives navigating away
+export interface BatchState {
+  tasks: BatchTask[];
+  runs: Record<string, BatchRowRun>;
+  concurrency: number;
+  running: boolean;
+}
+
+// A generation waiting on the user because it would cross a budget threshold
+export interface BudgetPrompt {
+  check: BudgetCheck;
+  description: string;
+  cost: number;
 }
 
 interface AppState {
   imageToImage: ImageToImageState;
   imageToVideo: ImageToVideoState;
+  batch: BatchState;
+  budgetPrompt: BudgetPrompt | null;
 }
 
 interface AppStateContextType {
@@ -48,46 +135,187 @@ interface AppStateContextType {
   updateImageToVideoState: (updates: Partial<ImageToVideoState>) => void;
   generateImages: (onWarning?: (assessment: RiskAssessment) => Promise<boolean>) => Promise<void>;
   generateVideo: (onWarning?: (assessment: RiskAssessment) => Promise<boolean>) => Promise<void>;
+  cancelJob: (id: string) => void;
+  dismissJob: (id: string) => void;
+  clearFinishedJobs: () => void;
   analyzePrompt: (prompt: string, type: 'image' | 'video', cost: number) => Promise<RiskAssessment>;
   rewritePrompt: (prompt: string, type: 'image' | 'video') => Promise<PromptRewriteResult>;
+  startBatch: (tasks: BatchTask[], concurrency: number) => void;
+  retryBatchRows: (rowIds: string[]) => Promise<void>;
+  cancelBatch: () => void;
+  clearBatch: () => void;
+  confirmBudget: (charge: BudgetCharge, description: string) => Promise<boolean>;
+  resolveBudgetPrompt: (proceed: boolean) => void;
 }
 
 const defaultImageToImageState: ImageToImageState = {
+  mode: "edit",
   preview: null,
+  previewHistoryId: null,
   prompt: "",
   model: "grok-imagine-image",
   imageCount: 1,
-  resultUrls: [],
-  sourceUrls: [],
-  loading: false,
   error: null,
+  jobs: [],
 };
 
 const defaultImageToVideoState: ImageToVideoState = {
   mode: "generate",
   preview: null,
+  previewHistoryId: null,
+  sourceVideoHistoryId: null,
   sourceVideoUrl: "",
   sourceVideoName: null,
   sourceVideoKey: null,
+  sourceVideoInfo: null,
   prompt: "",
   duration: 3,
   resolution: "480p",
-  resultUrl: null,
-  sourceUrl: null,
-  loading: false,
+  aspectRatio: null,
   error: null,
-  diagnostics: null,
+  jobs: [],
+};
+
+const defaultBatchState: BatchState = {
+  tasks: [],
+  runs: {},
+  concurrency: 2,
+  running: false,
 };
 
 const defaultState: AppState = {
   imageToImage: defaultImageToImageState,
   imageToVideo: defaultImageToVideoState,
+  batch: defaultBatchState,
+  budgetPrompt: null,
 };
 
 const AppStateContext = createContext<AppStateContextType | undefined>(undefined);
 
+/**
+ * Auto-save finished images and add each one to history.
+ * `inputImage` is the full-size image that was edited, if any.
+ * Returns the history ids of the images that were saved.
+ */
+async function saveImageResults(
+  result: ImageEditResult,
+  params: {
+    prompt: string;
+    model: "grok-imagine-image" | "grok-imagine-image-pro";
+    mode: ImageMode;
+    inputImage: string | null;
+    parentId: string | null;
+  }
+): Promise<string[]> {
+  // Auto-save images if enabled
+  if (isAutoSaveEnabled()) {
+    for (let i = 0; i < result.dataUrls.length; i++) {
+      const filename = generateAutoSaveFilename('image', result.dataUrls.length > 1 ? i : undefined);
+      await autoSaveFile(result.dataUrls[i], filename, 'image');
+    }
+  }
+
+  // Save to history - this continues even if user navigates away
+  const historyIds: string[] = [];
+  try {
+    const thumbnail = params.inputImage ? await createThumbnail(params.inputImage, 150) : undefined;
+    for (const [i, url] of result.dataUrls.entries()) {
+      // History keeps a small preview; the full-size image goes to the media store
+      const historyId = await addToHistory({
+        type: "image",
+        prompt: params.prompt,
+        inputImage: thumbnail,
+        resultUrl: await createThumbnail(url, 400),
+        parentId: params.parentId ?? undefined,
+        sourceUrl: result.sourceUrls[i],
+        metadata: {
+          model: params.model,
+          imageCount: result.dataUrls.length,
+          mode: params.mode,
+        },
+      });
+      if (historyId) {
+        await saveMedia(historyId, url);
+        if (params.inputImage) await saveMedia(inputMediaId(historyId), params.inputImage);
+        historyIds.push(historyId);
+      }
+    }
+  } catch (historyErr) {
+    console.error("Failed to save to history:", historyErr);
+    // Don't fail the whole operation if history save fails
+  }
+  return historyIds;
+}
+
+/**
+ * Auto-save a finished video and add it to history.
+ * Shared by live jobs and jobs resumed after a reload so both end up stored the same way.
+ * `inputImage` is the full-size source image, when still at hand, kept so the video can be remixed.
+ * Returns the history id, or null if it could not be saved.
+ */
+async function saveVideoResult(
+  result: VideoResult,
+  job: Omit<VideoJobRecord, "requestId" | "createdAt">,
+  generationMs: number,
+  inputImage?: string
+): Promise<string | null> {
+  // Auto-save video if enabled
+  if (isAutoSaveEnabled()) {
+    const filename = generateAutoSaveFilename('video');
+    await autoSaveFile(result.dataUrl, filename, 'video');
+  }
+
+  // Save to history - this continues even if user navigates away
+  try {
+    const videoThumbnail = await createVideoThumbnail(result.dataUrl, 200);
+    const historyId = await addToHistory({
+      type: "video",
+      prompt: job.prompt,
+      inputImage: job.inputThumbnail,
+      resultUrl: videoThumbnail,
+      parentId: job.parentId,
+      sourceUrl: result.sourceUrl ?? undefined,
+      metadata: {
+        duration: job.params.duration,
+        resolution: job.params.resolution,
+        aspectRatio: job.params.aspectRatio,
+        model: "grok-imagine-video",
+        mode: job.mode,
+        sourceVideoName: job.params.sourceVideoName,
+        sourceVideoKey: job.params.sourceVideoKey,
+        generationMs,
+        // Keep the source link for edits and extensions (inline data URLs are too big for history)
+        ...(job.params.sourceVideoUrl && !job.params.sourceVideoUrl.startsWith("data:")
+          ? { sourceVideoUrl: job.params.sourceVideoUrl }
+          : {}),
+      },
+    });
+    // Keep the full MP4 so History can play and download it
+    if (historyId) {
+      await saveMedia(historyId, result.dataUrl);
+      if (inputImage) await saveMedia(inputMediaId(historyId), inputImage);
+    }
+    return historyId;
+  } catch (historyErr) {
+    console.error("Failed to save to history:", historyErr);
+    // Don't fail the whole operation if history save fails
+    return null;
+  }
+}
+
 export function AppStateProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<AppState>(defaultState);
+  const resumeStarted = useRef(false);
+  // One controller per running job, keyed by job id
+  const abortControllers = useRef(new Map<string, AbortController>());
+  // Batch rows waiting for a free worker, and the controller shared by the running batch
+  const batchQueue = useRef<BatchTask[]>([]);
+  const batchController = useRef<AbortController | null>(null);
+  const batchBudgetReservations = useRef(new Map<string, () => void>());
+  // Settles the open budget prompt with the user's choice
+  const budgetResolver = useRef<((proceed: boolean) => void) | null>(null);
+
+  useJobNotifications(state.imageToImage.jobs, state.imageToVideo.jobs);
 
   const updateImageToImageState = (updates: Partial<ImageToImageState>) => {
     setState((prev) => ({
@@ -103,57 +331,156 @@ export function AppStateProvider({ children }: { children: ReactNode }) {
     }));
   };
 
+  const addImageJob = (job: ImageJob) => {
+    setState((prev) => ({
+      ...prev,
+      imageToImage: { ...prev.imageToImage, jobs: [job, ...prev.imageToImage.jobs] },
+    }));
+  };
+
+  const updateImageJob = (id: string, updates: Partial<ImageJob>) => {
+    setState((prev) => ({
+      ...prev,
+      imageToImage: {
+        ...prev.imageToImage,
+        jobs: prev.imageToImage.jobs.map((job) => (job.id === id ? { ...job, ...updates } : job)),
+      },
+    }));
+  };
+
+  const addVideoJob = (job: VideoJob) => {
+    setState((prev) => ({
+      ...prev,
+      imageToVideo: { ...prev.imageToVideo, jobs: [job, ...prev.imageToVideo.jobs] },
+    }));
+  };
+
+  const updateVideoJob = (id: string, updates: Partial<VideoJob>) => {
+    setState((prev) => ({
+      ...prev,
+      imageToVideo: {
+        ...prev.imageToVideo,
+        jobs: prev.imageToVideo.jobs.map((job) => (job.id === id ? { ...job, ...updates } : job)),
+      },
+    }));
+  };
+
+  const startController = (jobId: string): AbortController => {
+    const controller = new AbortController();
+    abortControllers.current.set(jobId, controller);
+    return controller;
+  };
+
+  /**
+   * Check a pending generation against the budgets. Resolves true straight away when it stays
+   * under every warning threshold; otherwise asks the user through the budget prompt.
+   */
+  const confirmBudget = (charge: BudgetCharge, description: string): Promise<boolean> => {
+    const check = checkBudget(charge);
+    if (check.status === "ok") return Promise.resolve(true);
+    return new Promise((resolve) => {
+      // A newer request replaces one still waiting on the user
+      budgetResolver.current?.(false);
+      budgetResolver.current = resolve;
+      setState((prev) => ({
+        ...prev,
+        budgetPrompt: { check, description, cost: (charge.image ?? 0) + (charge.video ?? 0) },
+      }));
+    });
+  };
+
+  const resolveBudgetPrompt = (proceed: boolean) => {
+    budgetResolver.current?.(proceed);
+    budgetResolver.current = null;
+    setState((prev) => ({ ...prev, budgetPrompt: null }));
+  };
+
   const generateImages = async () => {
-    const { preview, prompt, model, imageCount } = state.imageToImage;
+    const { mode, preview, previewHistoryId, prompt, model, imageCount } = state.imageToImage;
+
+    if (!prompt.trim()) {
+      updateImageToImageState({ error: "Please enter a prompt." });
+      return;
+    }
 
-    if (!preview || !prompt.trim()) {
+    if (mode === "edit" && !preview) {
       updateImageToImageState({ error: "Please upload an image and enter a prompt." });
       return;
     }
 
-    updateImageToImageState({ loading: true, error: null, resultUrls: [], sourceUrls: [] });
+    updateImageToImageState({ error: null });
+
+    const cost = mode === "text" ? calculateImageCost(model, imageCount) : calculateImageEditCost(model, imageCount);
+    const description = `${mode === "text" ? "Text to image" : "Image edit"} · ${imageCount} image${imageCount > 1 ? "s" : ""}`;
+    if (!(await confirmBudget({ image: cost }, description))) return;
+    const releaseBudget = reserveBudget({ image: cost });
+
+    const jobId = crypto.randomUUID();
+    addImageJob({
+      id: jobId,
+      status: "running",
+      prompt: prompt.trim(),
+      mode,
+      model,
+      imageCount,
+      startedAt: Date.now(),
+      finishedAt: null,
+      progress: "Generating…",
+      error: null,
+      errorKind: null,
+      diagnostics: null,
+      resultUrls: [],
+      sourceUrls: [],
+      historyIds: [],
+    });
+    const controller = startController(jobId);
 
     try {
-      const result = await imageEdit(prompt.trim(), preview, { model, count: imageCount });
-      updateImageToImageState({ resultUrls: result.dataUrls, sourceUrls: result.sourceUrls, loading: false });
-
-      // Auto-save images if enabled
-      if (isAutoSaveEnabled()) {
-        for (let i = 0; i < result.dataUrls.length; i++) {
-          const filename = generateAutoSaveFilename('image', result.dataUrls.length > 1 ? i : undefined);
-          await autoSaveFile(result.dataUrls[i], filename, 'image');
-        }
-      }
+      const result =
+        mode === "text"
+          ? await textToImage(prompt.trim(), { model, count: imageCount, signal: controller.signal })
+          : await imageEdit(prompt.trim(), preview!, { model, count: imageCount, signal: controller.signal });
+      updateImageJob(jobId, {
+        status: "done",
+        progress: null,
+        finishedAt: Date.now(),
+        resultUrls: result.dataUrls,
+        sourceUrls: result.sourceUrls,
+        diagnostics: describeRetries(result.retries),
+      });
 
-      // Save to history - this continues even if user navigates away
-      try {
-        const thumbnail = await createThumbnail(preview, 150);
-        for (const url of result.dataUrls) {
-          addToHistory({
-            type: "image",
-            prompt: prompt.trim(),
-            inputImage: thumbnail,
-            resultUrl: url,
-            metadata: {
-              model,
-              imageCount: result.dataUrls.length,
-            },
-          });
-        }
-      } catch (historyErr) {
-        console.error("Failed to save to history:", historyErr);
-        // Don't fail the whole operation if history save fails
-      }
+      const historyIds = await saveImageResults(result, {
+        prompt: prompt.trim(),
+        model,
+        mode,
+        inputImage: mode === "edit" ? preview : null,
+        parentId: mode === "edit" ? previewHistoryId : null,
+      });
+      updateImageJob(jobId, { historyIds });
     } catch (err) {
-      updateImageToImageState({
-        error: err instanceof Error ? err.message : "Request failed",
-        loading: false
+      updateImageJob(jobId, {
+        status: isAbortError(err) ? "cancelled" : "failed",
+        progress: null,
+        finishedAt: Date.now(),
+        error: isAbortError(err) ? null : err instanceof Error ? err.message : "Request failed",
+        errorKind: isAbortError(err) ? null : getGrokErrorKind(err),
+        diagnostics: getErrorDiagnostics(err),
       });
+    } finally {
+      abortControllers.current.delete(jobId);
+      releaseBudget();
     }
   };
 
+  // Forget a live job's registry record once it is over for good. Otherwise keep it for the next start,
+  // noting that this attempt already tracked the job's event so a resumed success does not count it again.
+  const settleVideoJobRecord = (record: VideoJobRecord, settled: boolean) =>
+    settled ? deleteVideoJob(record.requestId) : saveVideoJob({ ...record, tracked: true });
+
   const generateVideo = async () => {
-    const { mode, preview, sourceVideoUrl, sourceVideoName, sourceVideoKey, prompt, duration, resolution } = state.imageToVideo;
+    const { mode, preview, previewHistoryId, sourceVideoHistoryId, sourceVideoUrl, sourceVideoName, sourceVideoKey, sourceVideoInfo, prompt, duration, resolution } = state.imageToVideo;
+    // Edits and extensions always keep the source video's framing
+    const aspectRatio = mode === "generate" || mode === "text" ? state.imageToVideo.aspectRatio ?? undefined : undefined;
 
     if (!prompt.trim()) {
       updateImageToVideoState({ error: "Please enter a prompt." });
@@ -176,73 +503,524 @@ export function AppStateProvider({ children }: { children: ReactNode }) {
         extensionSourceUrl = buildVideoSourceProxyUrl(sourceVideoKey);
       } catch (err) {
         updateImageToVideoState({
-          loading: false,
           error: err instanceof Error ? err.message : "Private video upload proxy is not available.",
         });
         return;
       }
     }
 
-    updateImageToVideoState({ loading: true, error: null, diagnostics: null, resultUrl: null, sourceUrl: null });
+    updateImageToVideoState({ error: null });
+
+    const trimmedSourceUrl = sourceVideoUrl.trim();
+    const source: VideoSourceInfo | null =
+      (mode === "edit" || mode === "extend") && sourceVideoInfo?.url === trimmedSourceUrl
+        ? { duration: sourceVideoInfo.duration, resolution: sourceVideoInfo.resolution }
+        : null;
+    const costInput = {
+      mode,
+      duration: mode === "extend" ? Math.min(10, Math.max(2, duration)) : duration,
+      resolution,
+      sourceDuration: source?.duration,
+      sourceResolution: source?.resolution,
+    };
+    const billed = getBilledVideo(costInput);
+    const charge = { video: calculateVideoModeCost(costInput) };
+    if (!(await confirmBudget(charge, `Video · ${billed.duration}s · ${billed.resolution}`))) return;
+    const releaseBudget = reserveBudget(charge);
+
+    const jobId = crypto.randomUUID();
+    const startedAt = Date.now();
+    addVideoJob({
+      id: jobId,
+      status: "running",
+      prompt: prompt.trim(),
+      mode,
+      duration: billed.duration,
+      resolution: billed.resolution,
+      aspectRatio,
+      startedAt,
+      finishedAt: null,
+      progress: "Submitting…",
+      phase: null,
+      download: null,
+      expectedMs: null,
+      error: null,
+      errorKind: null,
+      diagnostics: null,
+      resultUrl: null,
+      sourceUrl: null,
+      historyId: null,
+      requestId: null,
+      resumed: false,
+    });
+    const controller = startController(jobId);
+    void estimateVideoGenerationMs({ mode, resolution: billed.resolution, duration: billed.duration }).then((expectedMs) =>
+      updateVideoJob(jobId, { expectedMs })
+    );
+
+    let inputThumbnail: string | undefined;
+    try {
+      inputThumbnail =
+        mode === "text"
+          ? undefined
+          : mode === "generate"
+            ? await createThumbnail(preview!, 150)
+            : trimmedSourceUrl.startsWith("data:")
+              ? await createVideoThumbnail(trimmedSourceUrl, 150)
+              : trimmedSourceUrl;
+    } catch (thumbErr) {
+      console.error("Failed to create input thumbnail:", thumbErr);
+    }
+
+    const job: Omit<VideoJobRecord, "requestId" | "createdAt"> = {
+      mode,
+      prompt: prompt.trim(),
+      params: {
+        // Edits keep the source's length; without it the duration is unknown
+        duration: mode === "edit" && !source ? undefined : billed.duration,
+        resolution: billed.resolution,
+        aspectRatio,
+        sourceVideoUrl: mode === "generate" || mode === "text" ? undefined : trimmedSourceUrl,
+        sourceVideoName: sourceVideoName ?? undefined,
+        sourceVideoKey: sourceVideoKey ?? undefined,
+        sourceDuration: source?.duration,
+        sourceResolution: source?.resolution,
+      },
+      inputThumbnail,
+      parentId: (mode === "generate" ? previewHistoryId : mode === "text" ? null : sourceVideoHistoryId) ?? undefined,
+    };
+    let record: VideoJobRecord | null = null;
+    const onJobCreated = (id: string) => {
+      record = { ...job, requestId: id, createdAt: Date.now() };
+      updateVideoJob(jobId, { requestId: id, progress: "Video is being generated. This may take a few minutes." });
+      void saveVideoJob(record);
+    };
+    const onProgress = ({ phase, ...download }: VideoProgress) => {
+      updateVideoJob(jobId, { phase, download: phase === "downloading" ? download : null });
+    };
+    // Keep the registry record unless the job is over for good, so a transient failure can be resumed on the next start
+    let settled = false;
 
     try {
       const result =
         mode === "generate"
-          ? await imageToVideo(prompt.trim(), preview!, { duration, resolution })
-          : mode === "edit"
-            ? await videoEdit(prompt.trim(), extensionSourceUrl, sourceVideoName, {
-                pollTimeoutMs: 900_000,
-              })
-            : await videoExtend(prompt.trim(), extensionSourceUrl, sourceVideoName, {
-              duration: Math.min(10, Math.max(2, duration)),
-              pollTimeoutMs: 900_000, // 15 min for video extension jobs
-            });
-      updateImageToVideoState({ resultUrl: result.dataUrl, sourceUrl: result.sourceUrl, loading: false });
-
-      // Auto-save video if enabled
-      if (isAutoSaveEnabled()) {
-        const filename = generateAutoSaveFilename('video');
-        await autoSaveFile(result.dataUrl, filename, 'video');
+          ? await imageToVideo(prompt.trim(), preview!, { duration, aspectRatio, resolution, onJobCreated, onProgress, signal: controller.signal })
+          : mode === "text"
+            ? await textToVideo(prompt.trim(), { duration, aspectRatio, resolution, onJobCreated, onProgress, signal: controller.signal })
+            : mode === "edit"
+              ? await videoEdit(prompt.trim(), extensionSourceUrl, sourceVideoName, {
+                  source,
+                  billed,
+                  pollTimeoutMs: 900_000,
+                  onJobCreated,
+                  onProgress,
+                  signal: controller.signal,
+                })
+              : await videoExtend(prompt.trim(), extensionSourceUrl, sourceVideoName, {
+                  duration: billed.duration,
+                  source,
+                  pollTimeoutMs: 900_000, // 15 min for video extension jobs
+                  onJobCreated,
+                  onProgress,
+                  signal: controller.signal,
+                });
+      settled = true;
+      const finishedAt = Date.now();
+      updateVideoJob(jobId, {
+        status: "done",
+        progress: null,
+        finishedAt,
+        resultUrl: result.dataUrl,
+        sourceUrl: result.sourceUrl,
+        diagnostics: describeRetries(result.retries),
+      });
+
+      updateVideoJob(jobId, {
+        historyId: await saveVideoResult(result, job, finishedAt - startedAt, mode === "generate" ? preview! : undefined),
+      });
+    } catch (err) {
+      settled ||= isVideoJobSettled(err);
+      if (isAbortError(err)) {
+        updateVideoJob(jobId, { status: "cancelled", progress: null, finishedAt: Date.now() });
+      } else {
+        updateVideoJob(jobId, {
+          status: "failed",
+          progress: null,
+          finishedAt: Date.now(),
+          error: err instanceof Error ? err.message : "Request failed",
+          errorKind: getGrokErrorKind(err),
+          diagnostics: getErrorDiagnostics(err),
+        });
       }
+    } finally {
+      abortControllers.current.delete(jobId);
+      releaseBudget();
+      if (record) void settleVideoJobRecord(record, settled);
+    }
+  };
 
-      // Save to history - this continues even if user navigates away
-      try {
-        const inputThumbnail =
-          mode === "generate"
-            ? await createThumbnail(preview!, 150)
-            : sourceVideoUrl.trim().startsWith("data:")
-              ? await createVideoThumbnail(sourceVideoUrl.trim(), 150)
-              : sourceVideoUrl.trim();
-        const videoThumbnail = await createVideoThumbnail(result.dataUrl, 200);
-        addToHistory({
-          type: "video",
-          prompt: prompt.trim(),
-          inputImage: inputThumbnail,
-          resultUrl: videoThumbnail,
-            metadata: {
-              duration,
-              resolution,
-              mode,
-              sourceVideoName: sourceVideoName ?? undefined,
-              sourceVideoKey: sourceVideoKey ?? undefined,
-              ...(mode === "extend" ? { sourceVideoUrl: sourceVideoUrl.trim() } : {}),
+  const cancelJob = (id: string) => {
+    abortControllers.current.get(id)?.abort();
+  };
+
+  const dismissJob = (id: string) => {
+    setState((prev) => ({
+      ...prev,
+      imageToImage: {
+        ...prev.imageToImage,
+        jobs: prev.imageToImage.jobs.filter((job) => job.id !== id || job.status === "running"),
+      },
+      imageToVideo: {
+        ...prev.imageToVideo,
+        jobs: prev.imageToVideo.jobs.filter((job) => job.id !== id || job.status === "running"),
+      },
+    }));
+  };
+
+  const clearFinishedJobs = () => {
+    setState((prev) => ({
+      ...prev,
+      imageToImage: {
+        ...prev.imageToImage,
+        jobs: prev.imageToImage.jobs.filter((job) => job.status === "running"),
+      },
+      imageToVideo: {
+        ...prev.imageToVideo,
+        jobs: prev.imageToVideo.jobs.filter((job) => job.status === "running"),
+      },
+    }));
+  };
+
+  // Read the length and resolution of a pasted or reused source video, so edits and extensions are costed on it.
+  // Local uploads are read from the file before upload (see ImageToVideo).
+  const { mode: videoMode, sourceVideoUrl: videoSourceUrl, sourceVideoInfo } = state.imageToVideo;
+  const sourceToProbe =
+    (videoMode === "edit" || videoMode === "extend") && /^https?:\/\//i.test(videoSourceUrl.trim()) && sourceVideoInfo?.url !== videoSourceUrl.trim()
+      ? videoSourceUrl.trim()
+      : null;
+  useEffect(() => {
+    if (!sourceToProbe) return;
+    let cancelled = false;
+    // Wait for typing in the URL field to settle
+    const timer = window.setTimeout(() => {
+      readVideoMetadata(sourceToProbe)
+        .then(({ duration, width, height }) => {
+          if (cancelled) return;
+          setState((prev) => ({
+            ...prev,
+            imageToVideo: {
+              ...prev.imageToVideo,
+              sourceVideoInfo: { url: sourceToProbe, duration: Math.round(duration * 10) / 10, resolution: toVideoResolution(width, height) },
+            },
+          }));
+        })
+        .catch((err) => console.warn("Could not read the source video; costing from the selected settings:", err));
+    }, 500);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [sourceToProbe]);
+
+  // Resume video jobs that were still running when the page was last closed or reloaded
+  useEffect(() => {
+    if (resumeStarted.current) return;
+    resumeStarted.current = true;
+
+    const apiKey = getApiKeyFromCookie();
+    if (!apiKey) return;
+    setGrokApiKey(apiKey);
+
+    const resumeJob = async (record: VideoJobRecord) => {
+      const jobId = crypto.randomUUID();
+      const controller = new AbortController();
+      abortControllers.current.set(jobId, controller);
+      setState((prev) => ({
+        ...prev,
+        imageToVideo: {
+          ...prev.imageToVideo,
+          jobs: [
+            {
+              id: jobId,
+              status: "running",
+              prompt: record.prompt,
+              mode: record.mode,
+              duration: record.params.duration,
+              resolution: record.params.resolution,
+              aspectRatio: record.params.aspectRatio,
+              startedAt: record.createdAt,
+              finishedAt: null,
+              progress: "Resumed from your last session. Waiting for xAI to finish the video.",
+              phase: "queued",
+              download: null,
+              expectedMs: null,
+              error: null,
+              errorKind: null,
+              diagnostics: null,
+              resultUrl: null,
+              sourceUrl: null,
+              historyId: null,
+              requestId: record.requestId,
+              resumed: true,
             },
-          });
-      } catch (historyErr) {
-        console.error("Failed to save to history:", historyErr);
-        // Don't fail the whole operation if history save fails
+            ...prev.imageToVideo.jobs,
+          ],
+        },
+      }));
+      const setJob = (updates: Partial<VideoJob>) => {
+        setState((prev) => ({
+          ...prev,
+          imageToVideo: {
+            ...prev.imageToVideo,
+            jobs: prev.imageToVideo.jobs.map((job) => (job.id === jobId ? { ...job, ...updates } : job)),
+          },
+        }));
+      };
+      void estimateVideoGenerationMs({ mode: record.mode, resolution: record.params.resolution, duration: record.params.duration }).then(
+        (expectedMs) => setJob({ expectedMs })
+      );
+      // Only forget the job once it is over for good; after a transient failure the next start tries again
+      let settled = false;
+
+      try {
+        const result = await resumeVideoJob(
+          record.requestId,
+          record.tracked
+            ? null
+            : {
+                prompt: record.prompt,
+                inputImage: record.params.sourceVideoName ?? record.params.sourceVideoUrl ?? record.inputThumbnail ?? "",
+                metadata: {
+                  mode: record.mode,
+                  duration: record.params.duration,
+                  resolution: record.params.resolution,
+                  ...(record.params.sourceVideoUrl ? { sourceVideoUrl: record.params.sourceVideoUrl } : {}),
+                  ...(record.params.sourceVideoName ? { sourceVideoName: record.params.sourceVideoName } : {}),
+                  ...(record.params.sourceDuration !== undefined ? { sourceDuration: record.params.sourceDuration } : {}),
+                  ...(record.params.sourceResolution ? { sourceResolution: record.params.sourceResolution } : {}),
+                },
+              },
+          {
+            pollTimeoutMs: 900_000,
+            onProgress: ({ phase, ...download }) => setJob({ phase, download: phase === "downloading" ? download : null }),
+            signal: controller.signal,
+          }
+        );
+        settled = true;
+        const finishedAt = Date.now();
+        setJob({
+          status: "done",
+          progress: null,
+          finishedAt,
+          resultUrl: result.dataUrl,
+          sourceUrl: result.sourceUrl,
+          diagnostics: describeRetries(result.retries),
+        });
+        setJob({ historyId: await saveVideoResult(result, record, finishedAt - record.createdAt) });
+      } catch (err) {
+        settled ||= isVideoJobSettled(err);
+        if (!settled) {
+          // Give up after MAX_RESUME_ATTEMPTS failed resumes, so a job that keeps failing is not polled forever
+          const resumeAttempts = (record.resumeAttempts ?? 0) + 1;
+          if (resumeAttempts >= MAX_RESUME_ATTEMPTS) settled = true;
+          else void saveVideoJob({ ...record, resumeAttempts });
+        }
+        setJob({
+          status: isAbortError(err) ? "cancelled" : "failed",
+          progress: null,
+          finishedAt: Date.now(),
+          error: isAbortError(err) ? null : err instanceof Error ? err.message : "Request failed",
+          errorKind: isAbortError(err) ? null : getGrokErrorKind(err),
+          diagnostics: getErrorDiagnostics(err),
+        });
+      } finally {
+        abortControllers.current.delete(jobId);
+        if (settled) await deleteVideoJob(record.requestId);
+      }
+    };
+
+    void getUnfinishedVideoJobs().then((records) => {
+      records.forEach((record) => void resumeJob(record));
+    });
+  }, []);
+
+  const updateBatchRun = (rowId: string, updates: Partial<BatchRowRun> | ((run: BatchRowRun) => Partial<BatchRowRun>)) => {
+    setState((prev) => {
+      const run = prev.batch.runs[rowId];
+      if (!run) return prev;
+      const changes = typeof updates === "function" ? updates(run) : updates;
+      return { ...prev, batch: { ...prev.batch, runs: { ...prev.batch.runs, [rowId]: { ...run, ...changes } } } };
+    });
+  };
+
+  const releaseBatchBudget = (rowId: string) => {
+    batchBudgetReservations.current.get(rowId)?.();
+    batchBudgetReservations.current.delete(rowId);
+  };
+
+  const setBatchRunning = (running: boolean) => {
+    setState((prev) => ({ ...prev, batch: { ...prev.batch, running } }));
+  };
+
+  // Run one batch row through imageEdit or imageToVideo and store the results like any other job
+  const runBatchTask = async (task: BatchTask, signal: AbortSignal) => {
+    const startedAt = Date.now();
+    updateBatchRun(task.id, (run) => ({
+      status: "running",
+      attempts: run.attempts + 1,
+      startedAt,
+      finishedAt: null,
+      progress: task.mode === "image-edit" ? "Generating…" : "Submitting…",
+      error: null,
+      errorKind: null,
+      resultUrls: [],
+    }));
+
+    let record: VideoJobRecord | null = null;
+    // As in generateVideo: keep the registry record of a video row that failed for a reason resuming may fix
+    let settled = false;
+    try {
+      // Batch.tsx downloads remote images when the batch starts; drawing a cross-origin URL onto a canvas would fail
+      if (!task.imageDataUrl.startsWith("data:")) throw new Error("The input image was not downloaded. Upload it instead.");
+      if (task.mode === "image-edit") {
+        const result = await imageEdit(task.prompt, task.imageDataUrl, { model: task.model, count: task.count, signal });
+        updateBatchRun(task.id, { status: "done", progress: null, finishedAt: Date.now(), resultUrls: result.dataUrls });
+        await saveImageResults(result, {
+          prompt: task.prompt,
+          model: task.model,
+          mode: "edit",
+          inputImage: task.imageDataUrl,
+          parentId: null,
+        });
+      } else {
+        let inputThumbnail: string | undefined;
+        try {
+          inputThumbnail = await createThumbnail(task.imageDataUrl, 150);
+        } catch (thumbErr) {
+          console.error("Failed to create input thumbnail:", thumbErr);
+        }
+        const job: Omit<VideoJobRecord, "requestId" | "createdAt"> = {
+          mode: "generate",
+          prompt: task.prompt,
+          params: { duration: task.duration, resolution: task.resolution },
+          inputThumbnail,
+        };
+        const onJobCreated = (id: string) => {
+          record = { ...job, requestId: id, createdAt: Date.now() };
+          updateBatchRun(task.id, { progress: "Video is being generated. This may take a few minutes." });
+          void saveVideoJob(record);
+        };
+        const result = await imageToVideo(task.prompt, task.imageDataUrl, {
+          duration: task.duration,
+          resolution: task.resolution,
+          onJobCreated,
+          signal,
+        });
+        settled = true;
+        const finishedAt = Date.now();
+        updateBatchRun(task.id, { status: "done", progress: null, finishedAt, resultUrls: [result.dataUrl] });
+        await saveVideoResult(result, job, finishedAt - startedAt, task.imageDataUrl);
       }
     } catch (err) {
-      updateImageToVideoState({
-        error: err instanceof Error ? err.message : "Request failed",
-        diagnostics: getLastXaiApiErrorTrace()
-          ? JSON.stringify(getLastXaiApiErrorTrace(), null, 2)
-          : null,
-        loading: false
+      settled ||= isVideoJobSettled(err);
+      updateBatchRun(task.id, {
+        status: isAbortError(err) ? "cancelled" : err instanceof ModerationError ? "moderated" : "failed",
+        progress: null,
+        finishedAt: Date.now(),
+        error: isAbortError(err) ? null : err instanceof Error ? err.message : "Request failed",
+        errorKind: isAbortError(err) ? null : getGrokErrorKind(err),
       });
+    } finally {
+      releaseBatchBudget(task.id);
+      if (record) void settleVideoJobRecord(record, settled);
     }
   };
 
+  // Work through the queue with at most `concurrency` rows in flight
+  const drainBatchQueue = async (concurrency: number) => {
+    const controller = new AbortController();
+    batchController.current = controller;
+    setBatchRunning(true);
+
+    const worker = async () => {
+      while (!controller.signal.aborted) {
+        const task = batchQueue.current.shift();
+        if (!task) return;
+        await runBatchTask(task, controller.signal);
+      }
+    };
+    // Rows retried while the last workers were finishing would otherwise be stranded
+    while (batchQueue.current.length > 0 && !controller.signal.aborted) {
+      await Promise.all(Array.from({ length: Math.max(1, concurrency) }, () => worker()));
+    }
+
+    if (controller.signal.aborted) {
+      const skipped = batchQueue.current.map((task) => task.id);
+      batchQueue.current = [];
+      skipped.forEach((id) => {
+        releaseBatchBudget(id);
+        updateBatchRun(id, { status: "cancelled", progress: null });
+      });
+    }
+    batchController.current = null;
+    setBatchRunning(false);
+  };
+
+  // Queued and running rows hold their cost against the budgets until they finish or are skipped
+  const enqueueBatchTasks = (tasks: BatchTask[], concurrency: number) => {
+    tasks.forEach((task) => {
+      batchBudgetReservations.current.get(task.id)?.();
+      batchBudgetReservations.current.set(task.id, reserveBudget(getBatchCharge([task])));
+    });
+    batchQueue.current.push(...tasks);
+    if (!batchController.current) void drainBatchQueue(concurrency);
+  };
+
+  const emptyRun = (): BatchRowRun => ({
+    status: "pending",
+    attempts: 0,
+    startedAt: null,
+    finishedAt: null,
+    progress: null,
+    error: null,
+    errorKind: null,
+    resultUrls: [],
+  });
+
+  const startBatch = (tasks: BatchTask[], concurrency: number) => {
+    if (batchController.current) return;
+    setState((prev) => ({
+      ...prev,
+      batch: {
+        tasks,
+        runs: Object.fromEntries(tasks.map((task) => [task.id, emptyRun()])),
+        concurrency,
+        running: true,
+      },
+    }));
+    enqueueBatchTasks(tasks, concurrency);
+  };
+
+  // Retries are billed again, so they go through the budget check like a new batch
+  const retryBatchRows = async (rowIds: string[]) => {
+    const { tasks, runs, concurrency } = state.batch;
+    const retry = tasks.filter((task) => rowIds.includes(task.id) && runs[task.id] && runs[task.id].status !== "running" && runs[task.id].status !== "pending");
+    if (retry.length === 0) return;
+    const description = `Retrying ${retry.length} batch row${retry.length === 1 ? "" : "s"}`;
+    if (!(await confirmBudget(getBatchCharge(retry), description))) return;
+    retry.forEach((task) => updateBatchRun(task.id, { status: "pending", error: null, errorKind: null, progress: null }));
+    enqueueBatchTasks(retry, concurrency);
+  };
+
+  const cancelBatch = () => {
+    batchController.current?.abort();
+  };
+
+  const clearBatch = () => {
+    if (batchController.current) return;
+    setState((prev) => ({ ...prev, batch: { ...defaultBatchState, concurrency: prev.batch.concurrency } }));
+  };
+
   const analyzePrompt = async (prompt: string, type: 'image' | 'video', cost: number): Promise<RiskAssessment> => {
     return await assessModerationRiskWithGrok(prompt, type, cost);
   };
@@ -259,8 +1037,17 @@ export function AppStateProvider({ children }: { children: ReactNode }) {
         updateImageToVideoState,
         generateImages,
         generateVideo,
+        cancelJob,
+        dismissJob,
+        clearFinishedJobs,
         analyzePrompt,
         rewritePrompt,
+        startBatch,
+        retryBatchRows,
+        cancelBatch,
+        clearBatch,
+        confirmBudget,
+        resolveBudgetPrompt,
       }}
     >
       {children}
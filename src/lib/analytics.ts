@@ -0,0 +1,265 @@
+/**
+ * Spend and usage analytics built from the tracked generation events (moderationTracking.ts).
+ * All money figures come from each event's recorded `cost`; nothing here re-prices events.
+ * Where xAI reported what a generation actually cost (`actualCost`), the drift functions compare the two.
+ */
+
+import { getPeriodStart, type BudgetPeriod } from "./budget";
+import type { ModerationEvent } from "./moderationTracking";
+
+export type AnalyticsDimension = "type" | "mode" | "model" | "resolution" | "duration";
+export type AnalyticsBucket = "day" | "week" | "month";
+
+export const ANALYTICS_DIMENSION_LABELS: Record<AnalyticsDimension, string> = {
+  type: "Type",
+  mode: "Mode",
+  model: "Model",
+  resolution: "Resolution",
+  duration: "Duration",
+};
+
+export interface SpendSeries {
+  /** Start of each bucket (ms), oldest first, with no gaps. */
+  buckets: number[];
+  /** Group names, largest total spend first. */
+  groups: string[];
+  /** Spend per group, aligned with `buckets`. */
+  values: Record<string, number[]>;
+}
+
+export interface ModerationTrendPoint {
+  bucket: number;
+  attempts: number;
+  moderated: number;
+  rate: number;
+}
+
+export interface GroupSummary {
+  group: string;
+  attempts: number;
+  moderated: number;
+  cost: number;
+  wasted: number;
+}
+
+export interface PromptSummary {
+  prompt: string;
+  type: "image" | "video";
+  attempts: number;
+  moderated: number;
+  cost: number;
+}
+
+/** Estimated and xAI-reported spend over the events that have a reported cost. */
+export interface DriftSummary {
+  group: string;
+  events: number;
+  estimated: number;
+  actual: number;
+}
+
+const BUCKET_PERIODS: Record<AnalyticsBucket, BudgetPeriod> = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+};
+
+const MODE_LABELS: Record<string, string> = {
+  "image:edit": "Image edit",
+  "image:text": "Text to image",
+  "video:generate": "Image to video",
+  "video:text": "Text to video",
+  "video:edit": "Video edit",
+  "video:extend": "Video extend",
+};
+
+export function getBucketStart(timestamp: number, bucket: AnalyticsBucket): number {
+  return getPeriodStart(BUCKET_PERIODS[bucket], new Date(timestamp));
+}
+
+function nextBucket(start: number, bucket: AnalyticsBucket): number {
+  const date = new Date(start);
+  if (bucket === "day") date.setDate(date.getDate() + 1);
+  else if (bucket === "week") date.setDate(date.getDate() + 7);
+  else date.setMonth(date.getMonth() + 1);
+  return date.getTime();
+}
+
+/**
+ * The group an event falls into for a dimension. Images have no resolution or duration.
+ */
+export function getEventGroup(event: ModerationEvent, dimension: AnalyticsDimension): string {
+  const metadata = event.metadata ?? {};
+  switch (dimension) {
+    case "type":
+      return event.type === "video" ? "Video" : "Image";
+    case "mode": {
+      // Image edits and image-to-video runs were tracked without a mode
+      const mode = typeof metadata.mode === "string" ? metadata.mode : event.type === "video" ? "generate" : "edit";
+      return MODE_LABELS[`${event.type}:${mode}`] ?? mode;
+    }
+    case "model":
+      return event.model ?? "Unknown";
+    case "resolution":
+      return event.type === "video" && typeof metadata.resolution === "string" ? metadata.resolution : "n/a";
+    case "duration":
+      return event.type === "video" && typeof metadata.duration === "number" ? `${metadata.duration}s` : "n/a";
+  }
+}
+
+export function filterEventsSince(events: ModerationEvent[], since: number | null): ModerationEvent[] {
+  return since === null ? events : events.filter((event) => event.timestamp >= since);
+}
+
+/**
+ * Every bucket from the oldest event's to the newest's
+ */
+function getBuckets(events: ModerationEvent[], bucket: AnalyticsBucket): number[] {
+  if (events.length === 0) return [];
+  const timestamps = events.map((event) => event.timestamp);
+  const last = getBucketStart(Math.max(...timestamps), bucket);
+  const buckets: number[] = [];
+  for (let start = getBucketStart(Math.min(...timestamps), bucket); start <= last; start = nextBucket(start, bucket)) {
+    buckets.push(start);
+  }
+  return buckets;
+}
+
+export function getSpendSeries(events: ModerationEvent[], bucket: AnalyticsBucket, dimension: AnalyticsDimension): SpendSeries {
+  const buckets = getBuckets(events, bucket);
+  const index = new Map(buckets.map((start, i) => [start, i]));
+  const values: Record<string, number[]> = {};
+
+  for (const event of events) {
+    const group = getEventGroup(event, dimension);
+    values[group] ??= new Array<number>(buckets.length).fill(0);
+    values[group][index.get(getBucketStart(event.timestamp, bucket))!] += event.cost;
+  }
+
+  const total = (group: string) => values[group].reduce((sum, value) => sum + value, 0);
+  const groups = Object.keys(values).sort((a, b) => total(b) - total(a));
+  return { buckets, groups, values };
+}
+
+/**
+ * Share of attempts moderated per bucket. Cancelled runs are left out, as in getModerationStats.
+ */
+export function getModerationTrend(events: ModerationEvent[], bucket: AnalyticsBucket): ModerationTrendPoint[] {
+  const counted = events.filter((event) => !event.cancelled);
+  const points = getBuckets(counted, bucket).map((start) => ({ bucket: start, attempts: 0, moderated: 0, rate: 0 }));
+  const index = new Map(points.map((point, i) => [point.bucket, i]));
+
+  for (const event of counted) {
+    const point = points[index.get(getBucketStart(event.timestamp, bucket))!];
+    point.attempts++;
+    if (event.moderated) point.moderated++;
+  }
+  for (const point of points) {
+    point.rate = point.attempts > 0 ? point.moderated / point.attempts : 0;
+  }
+  return points;
+}
+
+/**
+ * Attempts, spend and money wasted on moderated runs per group, most expensive first
+ */
+export function getGroupSummaries(events: ModerationEvent[], dimension: AnalyticsDimension): GroupSummary[] {
+  const summaries = new Map<string, GroupSummary>();
+  for (const event of events) {
+    if (event.cancelled) continue;
+    const group = getEventGroup(event, dimension);
+    let summary = summaries.get(group);
+    if (!summary) {
+      summary = { group, attempts: 0, moderated: 0, cost: 0, wasted: 0 };
+      summaries.set(group, summary);
+    }
+    summary.attempts++;
+    summary.cost += event.cost;
+    if (event.moderated) {
+      summary.moderated++;
+      summary.wasted += event.cost;
+    }
+  }
+  return [...summaries.values()].sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * Prompts by total spend across every attempt with the same text and type
+ */
+export function getTopPrompts(events: ModerationEvent[], limit: number): PromptSummary[] {
+  const prompts = new Map<string, PromptSummary>();
+  for (const event of events) {
+    if (event.cancelled) continue;
+    const key = `${event.type}\n${event.prompt.trim()}`;
+    let summary = prompts.get(key);
+    if (!summary) {
+      summary = { prompt: event.prompt.trim(), type: event.type, attempts: 0, moderated: 0, cost: 0 };
+      prompts.set(key, summary);
+    }
+    summary.attempts++;
+    summary.cost += event.cost;
+    if (event.moderated) summary.moderated++;
+  }
+  return [...prompts.values()].sort((a, b) => b.cost - a.cost).slice(0, limit);
+}
+
+/**
+ * Estimate vs reported cost per group, for the events xAI reported a cost on. Largest absolute drift first.
+ */
+export function getDriftSummaries(events: ModerationEvent[], dimension: AnalyticsDimension): DriftSummary[] {
+  const summaries = new Map<string, DriftSummary>();
+  for (const event of events) {
+    if (event.cancelled || event.actualCost === undefined) continue;
+    const group = getEventGroup(event, dimension);
+    let summary = summaries.get(group);
+    if (!summary) {
+      summary = { group, events: 0, estimated: 0, actual: 0 };
+      summaries.set(group, summary);
+    }
+    summary.events++;
+    summary.estimated += event.cost;
+    summary.actual += event.actualCost;
+  }
+  return [...summaries.values()].sort((a, b) => Math.abs(b.actual - b.estimated) - Math.abs(a.actual - a.estimated));
+}
+
+/**
+ * Reported cost relative to the estimate: 0.1 means xAI billed 10% more than the pricing table predicts
+ */
+export function getDriftRate(summary: DriftSummary): number | null {
+  return summary.estimated > 0 ? summary.actual / summary.estimated - 1 : null;
+}
+
+function toCsvField(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per event, oldest first
+ */
+export function eventsToCsv(events: ModerationEvent[]): string {
+  const header = ["timestamp", "type", "mode", "model", "resolution", "duration", "count", "moderated", "cancelled", "cost", "actual_cost", "prompt", "error"];
+  const rows = [...events]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((event) =>
+      [
+        new Date(event.timestamp).toISOString(),
+        event.type,
+        getEventGroup(event, "mode"),
+        event.model,
+        event.type === "video" ? getEventGroup(event, "resolution") : "",
+        typeof event.metadata?.duration === "number" && event.type === "video" ? event.metadata.duration : undefined,
+        typeof event.metadata?.count === "number" ? event.metadata.count : undefined,
+        event.moderated,
+        !!event.cancelled,
+        event.cost.toFixed(4),
+        event.actualCost?.toFixed(4),
+        event.prompt,
+        event.errorMessage,
+      ]
+        .map(toCsvField)
+        .join(",")
+    );
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
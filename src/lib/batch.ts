@@ -0,0 +1,265 @@
+/**
+ * Batch prompt lists: parse CSV/JSON rows, validate them and price them before a run.
+ *
+ * Columns / keys (case-insensitive): prompt, image, mode, duration, resolution, model, count.
+ *  - image: file name of one of the uploaded input images, or an http(s)/data URL.
+ *    May be left empty when exactly one input image is uploaded.
+ *  - mode: "image-edit" (also "image", "edit") or "image-to-video" (also "video", "generate").
+ *    Defaults to image-edit.
+ *  - duration (1-15 s) and resolution (480p/720p) apply to videos; model and count to image edits.
+ */
+
+import type { BudgetCharge } from "./budget";
+import type { GrokErrorKind } from "./grokErrors";
+import { calculateImageEditCost, calculateVideoCost, type ImageModel } from "./pricing";
+
+export type BatchMode = "image-edit" | "image-to-video";
+
+export interface BatchRow {
+  /** Stable id for tracking the row through runs and retries. */
+  id: string;
+  /** 1-based line (CSV) or entry (JSON) number, for error messages. */
+  line: number;
+  prompt: string;
+  image: string;
+  mode: BatchMode;
+  duration: number;
+  resolution: "480p" | "720p";
+  model: ImageModel;
+  count: number;
+  /** Problems that keep the row from running; empty when the row is valid. */
+  errors: string[];
+  /** Position in a sweep's comparison grid (see sweep.ts); absent for rows from a file. */
+  grid?: { row: string; column: string };
+}
+
+/** A valid row with its input image resolved, ready to run. */
+export interface BatchTask extends BatchRow {
+  imageDataUrl: string;
+}
+
+export type BatchRowStatus = "pending" | "running" | "done" | "failed" | "moderated" | "cancelled";
+
+/** Progress of one row across its attempts. */
+export interface BatchRowRun {
+  status: BatchRowStatus;
+  attempts: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  progress: string | null;
+  error: string | null;
+  errorKind: GrokErrorKind | null;
+  resultUrls: string[];
+}
+
+export const BATCH_STATUS_LABELS: Record<BatchRowStatus, string> = {
+  pending: "⏸ Queued",
+  running: "⏳ Running",
+  done: "✅ Done",
+  failed: "❌ Failed",
+  moderated: "🚫 Moderated",
+  cancelled: "⏹ Cancelled",
+};
+
+export const BATCH_DURATION_MIN = 1;
+export const BATCH_DURATION_MAX = 15;
+export const BATCH_COUNT_MAX = 10;
+
+const MODE_ALIASES: Record<string, BatchMode> = {
+  "image-edit": "image-edit",
+  image: "image-edit",
+  edit: "image-edit",
+  "image-to-video": "image-to-video",
+  video: "image-to-video",
+  generate: "image-to-video",
+};
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields, doubled quotes, CRLF or LF line ends)
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function toRow(raw: Record<string, unknown>, line: number): BatchRow {
+  const get = (key: string): string => {
+    const value = raw[key];
+    return value === undefined || value === null ? "" : String(value).trim();
+  };
+  const errors: string[] = [];
+
+  const prompt = get("prompt");
+  if (!prompt) errors.push("Missing prompt");
+
+  const modeValue = get("mode").toLowerCase();
+  const mode = modeValue ? MODE_ALIASES[modeValue] : "image-edit";
+  if (!mode) errors.push(`Unknown mode "${get("mode")}"`);
+
+  const durationValue = get("duration");
+  const duration = durationValue ? Number(durationValue) : 3;
+  if (!Number.isInteger(duration) || duration < BATCH_DURATION_MIN || duration > BATCH_DURATION_MAX) {
+    errors.push(`Duration must be a whole number from ${BATCH_DURATION_MIN} to ${BATCH_DURATION_MAX}`);
+  }
+
+  const resolutionValue = get("resolution").toLowerCase();
+  const resolution = resolutionValue === "720p" ? "720p" : "480p";
+  if (resolutionValue && resolutionValue !== "480p" && resolutionValue !== "720p") {
+    errors.push(`Unknown resolution "${get("resolution")}"`);
+  }
+
+  const modelValue = get("model");
+  const model: ImageModel = modelValue === "grok-imagine-image-pro" ? "grok-imagine-image-pro" : "grok-imagine-image";
+  if (modelValue && modelValue !== "grok-imagine-image" && modelValue !== "grok-imagine-image-pro" && modelValue !== "grok-imagine-video") {
+    errors.push(`Unknown model "${modelValue}"`);
+  }
+
+  const countValue = get("count");
+  const count = countValue ? Number(countValue) : 1;
+  if (!Number.isInteger(count) || count < 1 || count > BATCH_COUNT_MAX) {
+    errors.push(`Count must be a whole number from 1 to ${BATCH_COUNT_MAX}`);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    line,
+    prompt,
+    image: get("image"),
+    mode: mode ?? "image-edit",
+    duration,
+    resolution,
+    model,
+    count,
+    errors,
+  };
+}
+
+function lowerCaseKeys(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [key.trim().toLowerCase(), v]));
+}
+
+/**
+ * Parse a CSV (with a header row) or JSON (array of objects, or { rows: [...] }) prompt list.
+ * Throws when the file can't be read as either; per-row problems are reported in row.errors.
+ */
+export function parseBatchFile(fileName: string, text: string): BatchRow[] {
+  const trimmed = text.replace(/^\uFEFF/, "").trim();
+  const looksLikeJson = fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("[") || trimmed.startsWith("{");
+
+  if (looksLikeJson) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    const entries = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows;
+    if (!Array.isArray(entries)) {
+      throw new Error("JSON must be an array of rows or an object with a \"rows\" array");
+    }
+    return entries.map((entry, i) =>
+      entry && typeof entry === "object"
+        ? toRow(lowerCaseKeys(entry as Record<string, unknown>), i + 1)
+        : { ...toRow({}, i + 1), errors: ["Row is not an object"] }
+    );
+  }
+
+  const [header, ...records] = parseCsv(trimmed);
+  if (!header) throw new Error("The file is empty");
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes("prompt")) {
+    throw new Error("The CSV needs a header row with at least a \"prompt\" column");
+  }
+
+  // Line numbers count the header as line 1
+  return records.map((values, i) =>
+    toRow(Object.fromEntries(columns.map((column, c) => [column, values[c] ?? ""])), i + 2)
+  );
+}
+
+/**
+ * Price of one row at list price
+ */
+export function getBatchRowCost(row: BatchRow): number {
+  return row.mode === "image-edit" ? calculateImageEditCost(row.model, row.count) : calculateVideoCost(row.duration, row.resolution);
+}
+
+/**
+ * Total price of the rows at list price
+ */
+export function getBatchTotalCost(rows: BatchRow[]): number {
+  return rows.reduce((sum, row) => sum + getBatchRowCost(row), 0);
+}
+
+/**
+ * What the rows cost at list price, split by what each row generates, for the budget check
+ */
+export function getBatchCharge(rows: BatchRow[]): BudgetCharge {
+  const charge = { image: 0, video: 0 };
+  for (const row of rows) {
+    charge[row.mode === "image-edit" ? "image" : "video"] += getBatchRowCost(row);
+  }
+  return charge;
+}
+
+/**
+ * Find the input image a row refers to: an uploaded file by name (case-insensitive),
+ * the only uploaded file when the reference is empty, or an http(s)/data URL.
+ * Returns null when nothing matches.
+ */
+export function resolveBatchImage(reference: string, images: Map<string, string>): string | null {
+  if (!reference) {
+    return images.size === 1 ? [...images.values()][0] : null;
+  }
+  if (/^(https?:|data:)/i.test(reference)) return reference;
+  const name = reference.toLowerCase();
+  for (const [fileName, dataUrl] of images) {
+    if (fileName.toLowerCase() === name) return dataUrl;
+  }
+  return null;
+}
+
+/**
+ * Example file offered as a template on the batch page
+ */
+export const BATCH_CSV_TEMPLATE = [
+  "prompt,image,mode,duration,resolution,model,count",
+  '"Turn the sky into a sunset",photo.jpg,image-edit,,,grok-imagine-image,2',
+  '"Slow dolly zoom, leaves blowing",photo.jpg,image-to-video,6,720p,,',
+].join("\n");
@@ -0,0 +1,178 @@
+/**
+ * Spending budgets: daily, weekly or monthly caps on image, video or overall spend.
+ * Spend is summed from the cost recorded on each moderation event (see moderationTracking.ts),
+ * so it covers every generation this browser made, within the tracked event window. Events imported
+ * from another browser's archive are left out.
+ * Generations that were let through but have not finished yet hold a reservation (see reserveBudget)
+ * until their event is recorded, so jobs started side by side cannot overshoot a budget together.
+ */
+
+import { getModerationHistory } from "./moderationTracking";
+
+export type BudgetPeriod = "daily" | "weekly" | "monthly";
+export type BudgetScope = "all" | "image" | "video";
+
+export interface Budget {
+  id: string;
+  period: BudgetPeriod;
+  scope: BudgetScope;
+  /** Hard cap in USD: generations that would go over it are blocked unless overridden. */
+  limit: number;
+  /** Fraction of the limit (0–1) at which to warn before generating. */
+  warnAt: number;
+}
+
+/** What a generation is about to cost, per type. */
+export type BudgetCharge = Partial<Record<"image" | "video", number>>;
+
+export interface BudgetBreach {
+  budget: Budget;
+  spent: number;
+  /** Spend after the pending generation. */
+  projected: number;
+  level: "warning" | "blocked";
+}
+
+export interface BudgetCheck {
+  status: "ok" | "warning" | "blocked";
+  breaches: BudgetBreach[];
+}
+
+export interface BudgetUsage {
+  budget: Budget;
+  spent: number;
+}
+
+const STORAGE_KEY = "grok_budgets";
+
+// Charges of generations that passed the budget check and are still running
+const reservations = new Set<BudgetCharge>();
+
+export const DEFAULT_WARN_AT = 0.8;
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+/** The current period, as in "$3.20 spent this week". */
+export const BUDGET_PERIOD_SPANS: Record<BudgetPeriod, string> = {
+  daily: "today",
+  weekly: "this week",
+  monthly: "this month",
+};
+
+export const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  all: "All generations",
+  image: "Images",
+  video: "Videos",
+};
+
+function isBudget(value: unknown): value is Budget {
+  const budget = value as Budget;
+  return (
+    !!budget &&
+    typeof budget.id === "string" &&
+    ["daily", "weekly", "monthly"].includes(budget.period) &&
+    ["all", "image", "video"].includes(budget.scope) &&
+    typeof budget.limit === "number" &&
+    budget.limit > 0 &&
+    typeof budget.warnAt === "number"
+  );
+}
+
+export function getBudgets(): Budget[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return [];
+    const parsed: unknown = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed.filter(isBudget) : [];
+  } catch (err) {
+    console.error("Failed to load budgets:", err);
+    return [];
+  }
+}
+
+export function saveBudgets(budgets: Budget[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(budgets));
+}
+
+/**
+ * Start of the current period in local time. Weeks start on Monday.
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): number {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (period === "weekly") {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (period === "monthly") {
+    start.setDate(1);
+  }
+  return start.getTime();
+}
+
+/**
+ * Spend in the current period for a scope
+ */
+export function getPeriodSpend(period: BudgetPeriod, scope: BudgetScope, now: Date = new Date()): number {
+  const since = getPeriodStart(period, now);
+  return getModerationHistory()
+    .filter((event) => !event.imported && event.timestamp >= since && (scope === "all" || event.type === scope))
+    .reduce((sum, event) => sum + event.cost, 0);
+}
+
+export function getBudgetUsage(budgets: Budget[] = getBudgets(), now: Date = new Date()): BudgetUsage[] {
+  return budgets.map((budget) => ({ budget, spent: getPeriodSpend(budget.period, budget.scope, now) }));
+}
+
+function getScopeCost(charge: BudgetCharge, scope: BudgetScope): number {
+  return scope === "all" ? (charge.image ?? 0) + (charge.video ?? 0) : charge[scope] ?? 0;
+}
+
+/**
+ * Hold a charge against the budgets while its generation runs. Call the returned function once the
+ * generation has settled (its cost is then in the moderation events); calling it again does nothing.
+ */
+export function reserveBudget(charge: BudgetCharge): () => void {
+  // A copy, so the same charge object can be reserved twice
+  const reservation = { ...charge };
+  reservations.add(reservation);
+  return () => {
+    reservations.delete(reservation);
+  };
+}
+
+/**
+ * Check a pending generation against every budget it counts towards.
+ * Spend includes what running generations have reserved.
+ */
+export function checkBudget(charge: BudgetCharge, now: Date = new Date()): BudgetCheck {
+  const breaches: BudgetBreach[] = [];
+
+  for (const usage of getBudgetUsage(getBudgets(), now)) {
+    const { budget } = usage;
+    const cost = getScopeCost(charge, budget.scope);
+    if (cost <= 0) continue;
+    let spent = usage.spent;
+    reservations.forEach((reserved) => {
+      spent += getScopeCost(reserved, budget.scope);
+    });
+    const projected = spent + cost;
+    if (projected > budget.limit) {
+      breaches.push({ budget, spent, projected, level: "blocked" });
+    } else if (projected >= budget.limit * budget.warnAt) {
+      breaches.push({ budget, spent, projected, level: "warning" });
+    }
+  }
+
+  const status = breaches.some((breach) => breach.level === "blocked")
+    ? "blocked"
+    : breaches.length > 0
+      ? "warning"
+      : "ok";
+  return { status, breaches };
+}
+
+export function describeBudget(budget: Budget): string {
+  return `${BUDGET_PERIOD_LABELS[budget.period]} budget · ${BUDGET_SCOPE_LABELS[budget.scope]}`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Side-by-side comparison of 2–4 results: normalizing history items and current results
+ * into one shape, and diffing their prompts and settings against the first item.
+ */
+
+import { getModeLabel, type HistoryItem } from "./history";
+import { getMedia } from "./mediaStore";
+import type { ImageJob, VideoJob } from "../context/AppStateContext";
+
+export const COMPARE_MIN = 2;
+export const COMPARE_MAX = 4;
+
+export interface CompareItem {
+  id: string;
+  type: "image" | "video";
+  url: string;
+  /** Still image shown while a video loads, or when only a thumbnail is available. */
+  poster?: string;
+  prompt: string;
+  /** Settings shown (and diffed) under the item, e.g. { Model: "grok-imagine-image" }. */
+  fields: Record<string, string>;
+}
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+/**
+ * Settings of a history item, keyed by the labels the History details panel uses
+ */
+export function getHistoryCompareFields(item: HistoryItem): Record<string, string> {
+  const fields: Record<string, string> = {
+    Type: item.type === "video" ? "Video" : "Image",
+    Created: new Date(item.timestamp).toLocaleString(),
+  };
+  const mode = getModeLabel(item);
+  if (mode) fields.Mode = mode;
+  if (item.metadata?.model) fields.Model = item.metadata.model;
+  if (item.metadata?.duration) fields.Duration = `${item.metadata.duration}s`;
+  if (item.metadata?.resolution) fields.Resolution = item.metadata.resolution;
+  if (item.metadata?.aspectRatio) fields["Aspect Ratio"] = item.metadata.aspectRatio;
+  if (item.metadata?.imageCount) fields.Count = `${item.metadata.imageCount}`;
+  return fields;
+}
+
+/**
+ * Load history items for comparison, using the stored full media when available.
+ * Videos whose media was evicted fall back to their thumbnail as a still image.
+ * Returned object URLs must be released with releaseCompareItems.
+ */
+export async function loadHistoryCompareItems(items: HistoryItem[]): Promise<CompareItem[]> {
+  return Promise.all(
+    items.map(async (item) => {
+      const blob = await getMedia(item.id);
+      return {
+        id: item.id,
+        type: blob ? item.type : "image",
+        url: blob ? URL.createObjectURL(blob) : item.resultUrl,
+        poster: item.resultUrl,
+        prompt: item.prompt,
+        fields: getHistoryCompareFields(item),
+      };
+    })
+  );
+}
+
+/**
+ * One result of an Image to Image job, keyed "<job id>:<index>"
+ */
+export function getImageJobCompareItem(job: ImageJob, index: number): CompareItem {
+  return {
+    id: `${job.id}:${index}`,
+    type: "image",
+    url: job.resultUrls[index],
+    prompt: job.prompt,
+    fields: {
+      Mode: job.mode === "text" ? "From text" : "Edit",
+      Model: job.model,
+      Image: `${index + 1} of ${job.resultUrls.length}`,
+      Started: new Date(job.startedAt).toLocaleString(),
+    },
+  };
+}
+
+const VIDEO_JOB_MODE_LABELS: Record<VideoJob["mode"], string> = {
+  generate: "Generate",
+  text: "From text",
+  edit: "Edit",
+  extend: "Extend",
+};
+
+/**
+ * The finished video of an Image to Video job, keyed by job id
+ */
+export function getVideoJobCompareItem(job: VideoJob): CompareItem {
+  const fields: Record<string, string> = { Mode: VIDEO_JOB_MODE_LABELS[job.mode] };
+  if (job.duration) fields.Duration = job.mode === "extend" ? `+${job.duration}s` : `${job.duration}s`;
+  if (job.resolution) fields.Resolution = job.resolution;
+  if (job.aspectRatio) fields["Aspect Ratio"] = job.aspectRatio;
+  fields.Started = new Date(job.startedAt).toLocaleString();
+  return {
+    id: job.id,
+    type: "video",
+    url: job.resultUrl ?? "",
+    prompt: job.prompt,
+    fields,
+  };
+}
+
+export function releaseCompareItems(items: CompareItem[]): void {
+  for (const item of items) {
+    if (item.url.startsWith("blob:")) URL.revokeObjectURL(item.url);
+  }
+}
+
+/**
+ * Labels whose values are not the same across every item
+ */
+export function getDifferingFields(items: CompareItem[]): Set<string> {
+  const labels = new Set(items.flatMap((item) => Object.keys(item.fields)));
+  const differing = new Set<string>();
+  for (const label of labels) {
+    const values = new Set(items.map((item) => item.fields[label] ?? ""));
+    if (values.size > 1) differing.add(label);
+  }
+  return differing;
+}
+
+/**
+ * Word-level diff of `text` against `base`: the words of `text`, with the ones not part of
+ * the longest common subsequence marked as changed
+ */
+export function diffWords(base: string, text: string): DiffSegment[] {
+  const a = base.split(/(\s+)/).filter(Boolean);
+  const b = text.split(/(\s+)/).filter(Boolean);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (word: string, changed: boolean) => {
+    // Whitespace never counts as a change on its own
+    const isChanged = changed && word.trim() !== "";
+    const last = segments[segments.length - 1];
+    if (last && last.changed === isChanged) last.text += word;
+    else segments.push({ text: word, changed: isChanged });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (j < b.length) {
+    if (i < a.length && a[i] === b[j]) {
+      push(b[j], false);
+      i++;
+      j++;
+    } else if (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      push(b[j], true);
+      j++;
+    }
+  }
+  return segments;
+}
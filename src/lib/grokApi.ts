@@ -2,11 +2,23 @@ import { createXai } from "@ai-sdk/xai";
 import { convertUint8ArrayToBase64 } from "@ai-sdk/provider-utils";
 import { generateImage } from "ai";
 import { experimental_generateVideo as generateVideo } from "ai";
-import { trackModerationEvent, isModerationError } from "./moderationTracking";
+import { trackModerationEvent } from "./moderationTracking";
+import {
+  AuthError,
+  classifyGrokError,
+  GrokError,
+  InsufficientCreditsError,
+  ModerationError,
+  RateLimitError,
+  TimeoutError,
+  UpstreamError,
+  type GrokErrorDetails,
+  type GrokErrorKind,
+} from "./grokErrors";
 import { syncPromptRewriteApiKey } from "./grokPromptRewrite";
+import { inspectedFetch } from "./requestLog";
+import type { VideoResolution } from "./pricing";
 
-/** Captured CDN URLs from the most recent API call. Reset before each generation. */
-let capturedCdnUrls: string[] = [];
 export interface XaiApiErrorTrace {
   url: string;
   method: string;
@@ -14,7 +26,83 @@ export interface XaiApiErrorTrace {
   body: string;
 }
 
-let lastXaiApiErrorTrace: XaiApiErrorTrace | null = null;
+/**
+ * Billing data xAI returned for one generation, kept next to the client-side estimate.
+ * Only what the responses actually carried is present.
+ */
+export interface XaiUsage {
+  /** Cost reported by xAI, in USD. */
+  costUsd?: number;
+  /** Numeric fields from the `usage` objects in response bodies, summed across calls (e.g. usage.cost_in_usd_ticks). */
+  usage?: Record<string, number>;
+  /** Billing-related response headers, latest value per header. */
+  headers?: Record<string, string>;
+}
+
+/** A failed attempt at one request of a generation, retried or given up on. */
+export interface RetryAttempt {
+  operation: RetryOperation;
+  url: string;
+  attempt: number;
+  maxAttempts: number;
+  at: number;
+  status?: number;
+  kind: GrokErrorKind;
+  message: string;
+  /** Wait before the next attempt, or null when this was the last one. */
+  delayMs: number | null;
+}
+
+/** Called with the xAI request_id as soon as a video job has been accepted. */
+export type VideoJobCreatedCallback = (requestId: string) => void;
+
+/**
+ * Where a video job is:
+ *  - queued: accepted by xAI, not started yet
+ *  - processing: xAI is rendering it
+ *  - downloading: fetching the finished video through the proxy
+ *  - done: the video is ready
+ */
+export type VideoProgressPhase = "queued" | "processing" | "downloading" | "done";
+
+export interface VideoProgress {
+  phase: VideoProgressPhase;
+  /** Bytes of the video received so far, while downloading. */
+  loadedBytes?: number;
+  /** Size of the video, while downloading, when the proxy reported it. */
+  totalBytes?: number;
+}
+
+export type VideoProgressCallback = (progress: VideoProgress) => void;
+
+/** Aspect ratios accepted by grok-imagine-video. */
+export const VIDEO_ASPECT_RATIOS = ["16:9", "1:1", "9:16", "4:3", "3:4", "3:2", "2:3"] as const;
+export type VideoAspectRatio = (typeof VIDEO_ASPECT_RATIOS)[number];
+
+/**
+ * State that belongs to a single generation call. Every entry point creates its own scope,
+ * so concurrent jobs never overwrite each other's CDN URLs or error traces.
+ */
+interface GenerationScope {
+  /** Original CDN URLs captured while proxying this call's downloads. */
+  cdnUrls: string[];
+  /** Most recent failed xAI API call made by this generation. */
+  errorTrace: XaiApiErrorTrace | null;
+  /** Billing data from successful xAI calls, keyed by method and path so repeated polls keep only the latest. */
+  usage: Map<string, XaiUsage>;
+  /** Every failed attempt, in order, for the diagnostics panel. */
+  retries: RetryAttempt[];
+  /** request_id of the video job this call created, once xAI has accepted it (and billed it). */
+  requestId: string | null;
+  /** Set when a status poll reports the video job as failed or expired, or xAI no longer knows it. */
+  jobEnded: boolean;
+  onJobCreated?: VideoJobCreatedCallback;
+  onProgress?: VideoProgressCallback;
+}
+
+function createScope(onJobCreated?: VideoJobCreatedCallback, onProgress?: VideoProgressCallback): GenerationScope {
+  return { cdnUrls: [], errorTrace: null, usage: new Map(), retries: [], requestId: null, jobEnded: false, onJobCreated, onProgress };
+}
 
 let userApiKey: string | null = null;
 
@@ -24,14 +112,30 @@ export function setGrokApiKey(key: string | null): void {
   syncPromptRewriteApiKey(userApiKey);
 }
 
-export function clearLastXaiApiErrorTrace(): void {
-  lastXaiApiErrorTrace = null;
+/** The xAI error trace attached to an error thrown by one of the generation functions, if any. */
+export function getXaiErrorTrace(err: unknown): XaiApiErrorTrace | null {
+  return err instanceof GrokError ? err.xaiTrace : null;
 }
 
-export function getLastXaiApiErrorTrace(): XaiApiErrorTrace | null {
-  return lastXaiApiErrorTrace;
+/**
+ * Whether a video job has reached an end that resuming cannot change: xAI reported it failed or expired,
+ * rejected its request_id, finished it without a video, or the user cancelled it. Other failures (network, rate limits, a stale key) may clear up after a reload.
+ * A job that finished successfully is settled too, but there is no error to ask about then.
+ */
+export function isVideoJobSettled(err: unknown): boolean {
+  return isAbortError(err) || (err instanceof GrokError && err.jobEnded);
 }
 
+/**
+ * Text for the diagnostics panel of a failed call: the retried attempts, then the failed xAI call
+ */
+export function getErrorDiagnostics(err: unknown): string | null {
+  const trace = getXaiErrorTrace(err);
+  const retries = err instanceof GrokError ? describeRetries(err.retries) : null;
+  return [retries, trace ? JSON.stringify(trace, null, 2) : null].filter(Boolean).join("\n\n") || null;
+}
+
+
 function getApiKey(): string {
   if (!userApiKey) throw new Error("Grok API key is not set. Please log in.");
   return userApiKey;
@@ -46,8 +150,194 @@ function useProxy(url: string): boolean {
   return XAI_CDN_PREFIXES.some((p) => url.startsWith(p));
 }
 
-/** Custom fetch so requests to imgen.x.ai and vidgen.x.ai go via our proxy (avoids CORS). */
-async function grokFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+const VIDEO_CREATE_PATH = /\/videos\/(generations|edits|extensions)$/;
+const VIDEO_STATUS_PATH = /\/videos\/(?!generations$|edits$|extensions$)[^/]+$/;
+// Emit download progress at most this often, so a large video does not re-render the job for every chunk
+const DOWNLOAD_PROGRESS_INTERVAL_MS = 250;
+
+const BILLING_HEADER = /cost|billing|usage|credit/i;
+// xAI reports costs in ticks of 1e-10 USD
+const USD_PER_TICK = 1e-10;
+
+/** Flatten the numbers in a usage object into dotted keys. */
+function collectNumbers(value: unknown, prefix: string, out: Record<string, number>): void {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    out[prefix] = value;
+  } else if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, inner] of Object.entries(value)) collectNumbers(inner, `${prefix}.${key}`, out);
+  }
+}
+
+/** The USD cost in a set of usage fields or headers, if any of them names one. */
+function findCostUsd(fields: Record<string, number>): number | undefined {
+  let cost: number | undefined;
+  for (const [key, value] of Object.entries(fields)) {
+    const name = key.toLowerCase();
+    if (name.includes("tick")) cost = (cost ?? 0) + value * USD_PER_TICK;
+    else if (/cost|usd/.test(name)) cost = (cost ?? 0) + value;
+  }
+  return cost;
+}
+
+/**
+ * Record whatever billing data a successful xAI response carries: a `usage` object in a JSON body
+ * and any cost, billing, usage or credit headers.
+ */
+async function captureUsage(scope: GenerationScope, method: string, url: string, response: Response): Promise<void> {
+  const headers: Record<string, string> = {};
+  const headerCosts: Record<string, number> = {};
+  response.headers.forEach((value, name) => {
+    if (!BILLING_HEADER.test(name)) return;
+    headers[name] = value;
+    if (/cost|tick/i.test(name) && value.trim() !== "" && Number.isFinite(Number(value))) headerCosts[name] = Number(value);
+  });
+
+  const usage: Record<string, number> = {};
+  if (response.headers.get("content-type")?.includes("json")) {
+    try {
+      const json = (await response.clone().json()) as { usage?: unknown };
+      collectNumbers(json.usage, "usage", usage);
+    } catch {
+      // Leave the body for the caller to report
+    }
+  }
+
+  if (Object.keys(headers).length === 0 && Object.keys(usage).length === 0) return;
+  const costUsd = findCostUsd(usage) ?? findCostUsd(headerCosts);
+  scope.usage.set(`${method} ${url.split("?")[0]}`, {
+    ...(costUsd !== undefined ? { costUsd } : {}),
+    ...(Object.keys(usage).length > 0 ? { usage } : {}),
+    ...(Object.keys(headers).length > 0 ? { headers } : {}),
+  });
+}
+
+/** Everything xAI reported about this generation's billing, or undefined when it reported nothing. */
+function getScopeUsage(scope: GenerationScope): XaiUsage | undefined {
+  if (scope.usage.size === 0) return undefined;
+  const total: XaiUsage = {};
+  for (const entry of scope.usage.values()) {
+    if (entry.costUsd !== undefined) total.costUsd = (total.costUsd ?? 0) + entry.costUsd;
+    for (const [key, value] of Object.entries(entry.usage ?? {})) {
+      total.usage = { ...total.usage, [key]: (total.usage?.[key] ?? 0) + value };
+    }
+    if (entry.headers) total.headers = { ...total.headers, ...entry.headers };
+  }
+  return total;
+}
+
+/**
+ * Which kind of request is being retried:
+ *  - create: POSTs that start a paid generation
+ *  - poll: GETs of a video job's status
+ *  - download: fetching results from the xAI CDN through /api/proxy-image
+ */
+export type RetryOperation = "create" | "poll" | "download";
+
+interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryable: (error: GrokError) => boolean;
+}
+
+const isTransient = (error: GrokError) => error instanceof RateLimitError || error instanceof UpstreamError || error instanceof TimeoutError;
+
+const RETRY_POLICIES: Record<RetryOperation, RetryPolicy> = {
+  // A failed create may still have started a paid job, so only retry when xAI turned the request away
+  create: { maxAttempts: 3, baseDelayMs: 2_000, maxDelayMs: 30_000, retryable: (error) => error instanceof RateLimitError },
+  poll: { maxAttempts: 6, baseDelayMs: 1_000, maxDelayMs: 30_000, retryable: isTransient },
+  download: { maxAttempts: 4, baseDelayMs: 1_000, maxDelayMs: 15_000, retryable: isTransient },
+};
+
+// Longest Retry-After we will sit through before giving up instead
+const MAX_RETRY_AFTER_MS = 60_000;
+// The SDK retries whole calls, which could start a second paid job; withRetry retries single requests instead
+const SDK_MAX_RETRIES = 0;
+
+function isRetryable(error: GrokError, policy: RetryPolicy): boolean {
+  // Moderation, auth and credit failures come back the same every time
+  if (error instanceof ModerationError || error instanceof AuthError || error instanceof InsufficientCreditsError) return false;
+  if (error instanceof RateLimitError && (error.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) return false;
+  return policy.retryable(error);
+}
+
+/**
+ * Exponential backoff with jitter (50–100% of the step), or exactly what Retry-After asked for
+ */
+function getRetryDelay(error: GrokError, attempt: number, policy: RetryPolicy): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(step * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Send a request until it succeeds, fails in a way that retrying cannot fix, or runs out of attempts.
+ * Failed responses are returned (and network errors rethrown) as they were, so callers report them as before.
+ */
+async function withRetry(
+  scope: GenerationScope,
+  operation: RetryOperation,
+  url: string,
+  send: () => Promise<Response>,
+  signal?: AbortSignal | null
+): Promise<Response> {
+  const policy = RETRY_POLICIES[operation];
+  for (let attempt = 1; ; attempt++) {
+    let error: GrokError;
+    let failure: { response: Response } | { thrown: unknown };
+    try {
+      const response = await send();
+      if (response.ok) return response;
+      error = await readApiError(response.clone());
+      failure = { response };
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted) throw err;
+      error = classifyGrokError({ message: err instanceof Error ? err.message : String(err) });
+      failure = { thrown: err };
+    }
+
+    const willRetry = attempt < policy.maxAttempts && isRetryable(error, policy);
+    const delayMs = willRetry ? getRetryDelay(error, attempt, policy) : null;
+    scope.retries.push({
+      operation,
+      url: url.split("?")[0]!,
+      attempt,
+      maxAttempts: policy.maxAttempts,
+      at: Date.now(),
+      ...(error.status !== undefined ? { status: error.status } : {}),
+      kind: error.kind,
+      message: error.message,
+      delayMs,
+    });
+
+    if (delayMs === null) {
+      if ("response" in failure) return failure.response;
+      throw failure.thrown;
+    }
+    await delay(delayMs, signal ?? undefined);
+  }
+}
+
+/**
+ * One line per failed attempt, for the diagnostics panel. Null when nothing had to be retried.
+ */
+export function describeRetries(retries: RetryAttempt[]): string | null {
+  if (retries.length === 0) return null;
+  return retries
+    .map((retry) => {
+      const outcome = retry.delayMs === null ? "gave up" : `retried after ${(retry.delayMs / 1000).toFixed(1)}s`;
+      const status = retry.status !== undefined ? `${retry.status} ` : "";
+      return `Attempt ${retry.attempt}/${retry.maxAttempts} · ${retry.operation} ${retry.url} · ${status}${retry.kind}: ${retry.message} · ${outcome}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Custom fetch so requests to imgen.x.ai and vidgen.x.ai go via our proxy (avoids CORS).
+ * Also retries transient failures (see RETRY_POLICIES), records failed xAI calls and billing data from successful ones,
+ * and reports new video request_ids on the call's scope. Every attempt is logged for the request inspector.
+ */
+async function grokFetch(scope: GenerationScope, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
   const url = typeof input === "string" ? input : input instanceof URL ? input.href : (input as Request).url;
   const method =
     init?.method ??
@@ -55,25 +345,27 @@ async function grokFetch(input: RequestInfo | URL, init?: RequestInit): Promise<
 
   if (useProxy(url)) {
     // Capture the original CDN URL before proxying
-    capturedCdnUrls.push(url);
+    scope.cdnUrls.push(url);
     const proxyUrl = `/api/proxy-image?url=${encodeURIComponent(url)}`;
-    return fetch(proxyUrl, init);
+    return withRetry(scope, "download", url, () => inspectedFetch(proxyUrl, init), init?.signal);
   }
 
-  const response = await fetch(input, init);
-
   const isXaiApiCall = url.startsWith("/v1/") || url.includes("api.x.ai/");
+  const response = isXaiApiCall
+    ? await withRetry(scope, method === "GET" ? "poll" : "create", url, () => inspectedFetch(input, init), init?.signal)
+    : await inspectedFetch(input, init);
+
   if (isXaiApiCall && !response.ok) {
     try {
       const body = await response.clone().text();
-      lastXaiApiErrorTrace = {
+      scope.errorTrace = {
         url,
         method,
         status: response.status,
         body,
       };
     } catch {
-      lastXaiApiErrorTrace = {
+      scope.errorTrace = {
         url,
         method,
         status: response.status,
@@ -82,36 +374,112 @@ async function grokFetch(input: RequestInfo | URL, init?: RequestInit): Promise<
     }
   }
 
+  if (isXaiApiCall && response.ok) {
+    await captureUsage(scope, method, url, response);
+  }
+
+  if (method === "POST" && response.ok && VIDEO_CREATE_PATH.test(url.split("?")[0]!)) {
+    try {
+      const json = (await response.clone().json()) as { request_id?: string };
+      if (json.request_id) {
+        scope.requestId = json.request_id;
+        scope.onJobCreated?.(json.request_id);
+        scope.onProgress?.({ phase: "queued" });
+      }
+    } catch {
+      // Leave the body for the caller to report
+    }
+  }
+
+  // A request_id xAI rejects (unknown, expired, not ours) will not be accepted on a later poll either;
+  // a rate limit or a key that has since been replaced might clear up
+  if (
+    method === "GET" &&
+    response.status >= 400 &&
+    response.status < 500 &&
+    response.status !== 401 &&
+    response.status !== 429 &&
+    VIDEO_STATUS_PATH.test(url.split("?")[0]!)
+  ) {
+    scope.jobEnded = true;
+  }
+
+  // Status polls, from pollVideoJob and from the SDK alike
+  if (method === "GET" && response.ok && VIDEO_STATUS_PATH.test(url.split("?")[0]!)) {
+    try {
+      const json = (await response.clone().json()) as { status?: string };
+      if (json.status === "failed" || json.status === "expired") scope.jobEnded = true;
+      else if (json.status === "queued") scope.onProgress?.({ phase: "queued" });
+      else if (json.status && json.status !== "done") scope.onProgress?.({ phase: "processing" });
+    } catch {
+      // Leave the body for the caller to report
+    }
+  }
+
   return response;
 }
 
 /** Custom download for generateVideo: fetches video URLs via our proxy to avoid CORS. */
-async function proxyDownload(options: {
-  url: URL;
-  abortSignal?: AbortSignal;
-}): Promise<{ data: Uint8Array; mediaType: string | undefined }> {
-  const href = options.url.href;
-  // Capture the original CDN URL before proxying
-  if (useProxy(href)) {
-    capturedCdnUrls.push(href);
-  }
-  const url = useProxy(href)
-    ? `/api/proxy-image?url=${encodeURIComponent(href)}`
-    : href;
-  const res = await fetch(url, { signal: options.abortSignal });
-  if (!res.ok) throw new Error(`Download failed: ${res.status}`);
-  const buf = await res.arrayBuffer();
-  return {
-    data: new Uint8Array(buf),
-    mediaType: res.headers.get("content-type") ?? undefined,
+function createProxyDownload(scope: GenerationScope) {
+  return async (options: {
+    url: URL;
+    abortSignal?: AbortSignal;
+  }): Promise<{ data: Uint8Array; mediaType: string | undefined }> => {
+    const href = options.url.href;
+    // Capture the original CDN URL before proxying
+    if (useProxy(href)) {
+      scope.cdnUrls.push(href);
+    }
+    const url = useProxy(href)
+      ? `/api/proxy-image?url=${encodeURIComponent(href)}`
+      : href;
+    const res = await withRetry(scope, "download", href, () => inspectedFetch(url, { signal: options.abortSignal }), options.abortSignal);
+    if (!res.ok) throw await readApiError(res);
+    return {
+      data: await readWithProgress(res, scope.onProgress),
+      mediaType: res.headers.get("content-type") ?? undefined,
+    };
   };
 }
 
-function getXai() {
+/** Read a download's body, reporting bytes received to onProgress as they arrive. */
+async function readWithProgress(response: Response, onProgress?: VideoProgressCallback): Promise<Uint8Array> {
+  const totalBytes = Number(response.headers.get("content-length")) || undefined;
+  const report = (loadedBytes: number) =>
+    onProgress?.({ phase: "downloading", loadedBytes, ...(totalBytes !== undefined ? { totalBytes } : {}) });
+  if (!onProgress || !response.body) return new Uint8Array(await response.arrayBuffer());
+
+  report(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  let reportedAt = Date.now();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    if (Date.now() - reportedAt >= DOWNLOAD_PROGRESS_INTERVAL_MS) {
+      reportedAt = Date.now();
+      report(loaded);
+    }
+  }
+  report(loaded);
+
+  const data = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+function getXai(scope: GenerationScope) {
   return createXai({
     apiKey: getApiKey(),
     baseURL: getBaseUrl(),
-    fetch: grokFetch,
+    fetch: (input, init) => grokFetch(scope, input, init),
   });
 }
 
@@ -123,19 +491,32 @@ function dataUriToUint8Array(dataUri: string): Uint8Array {
   return arr;
 }
 
-async function readApiError(response: Response): Promise<string> {
-  try {
-    const text = await response.text();
-    if (!text) return `Request failed with status ${response.status}`;
-    try {
-      const parsed = JSON.parse(text) as { error?: string; message?: string };
-      return parsed.error ?? parsed.message ?? text;
-    } catch {
-      return text;
+/** True when the error came from an AbortSignal, i.e. the user cancelled the generation. */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+function cancelledError(): DOMException {
+  return new DOMException("Generation cancelled.", "AbortError");
+}
+
+/** setTimeout-based delay that rejects as soon as the signal is aborted. */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
     }
-  } catch {
-    return `Request failed with status ${response.status}`;
-  }
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
@@ -167,34 +548,72 @@ async function compressImage(
         return;
       }
 
-      ctx.drawImage(img, 0, 0, width, height);
-
-      // Convert to JPEG with compression
-      const compressed = canvas.toDataURL("image/jpeg", quality);
-      resolve(compressed);
+      try {
+        ctx.drawImage(img, 0, 0, width, height);
+        // Convert to JPEG with compression
+        resolve(canvas.toDataURL("image/jpeg", quality));
+      } catch (err) {
+        // A cross-origin image taints the canvas and toDataURL throws
+        reject(err instanceof Error ? err : new Error("Failed to compress image"));
+      }
     };
     img.onerror = () => reject(new Error("Failed to load image"));
     img.src = dataUri;
   });
 }
 
-/** Extract a user-facing message from API errors (e.g. content moderation, rate limits, credits). */
-function getErrorMessage(err: unknown): string {
+type ErrorBody = { error?: string | { message?: string; code?: string; type?: string }; message?: string; code?: string };
+
+/** Message and code from an xAI JSON error body, or null when the body is not one. */
+function parseErrorBody(body: string): { message?: string; code?: string } | null {
+  try {
+    const parsed = JSON.parse(body) as ErrorBody;
+    if (!parsed || typeof parsed !== "object") return null;
+    const error = parsed.error;
+    if (typeof error === "string") return { message: error, code: parsed.code };
+    if (error && typeof error === "object") {
+      return { message: error.message ?? parsed.message, code: error.code ?? error.type ?? parsed.code };
+    }
+    return { message: parsed.message, code: parsed.code };
+  } catch {
+    return null; // not JSON
+  }
+}
+
+/**
+ * Extract a user-facing message, plus the HTTP status, error code and headers where the error carries them
+ * (SDK APICallErrors, our own API errors, retry wrappers).
+ */
+function getErrorMessage(err: unknown): GrokErrorDetails {
   // SDK RetryError: "Failed after 3 attempts. Last error: ..." — use the last underlying error
   if (err && typeof err === "object" && "errors" in err && Array.isArray((err as { errors: unknown[] }).errors)) {
     const errors = (err as { errors: unknown[]; message?: string }).errors;
     const last = errors[errors.length - 1];
     if (last !== undefined) {
       const inner = getErrorMessage(last);
-      if (inner && inner !== "Request failed") return inner;
+      if (inner.message && inner.message !== "Request failed") return inner;
     }
     const msg = (err as { message?: string }).message;
     if (typeof msg === "string" && msg.includes("Last error:")) {
       const after = msg.split("Last error:")[1]?.trim();
-      if (after) return after;
+      if (after) return { message: after };
     }
   }
 
+  const status =
+    err && typeof err === "object" && "statusCode" in err && typeof (err as { statusCode?: unknown }).statusCode === "number"
+      ? (err as { statusCode: number }).statusCode
+      : undefined;
+  const rawHeaders =
+    err && typeof err === "object" && "responseHeaders" in err ? (err as { responseHeaders?: Record<string, string> }).responseHeaders : undefined;
+  const headers = rawHeaders ? Object.fromEntries(Object.entries(rawHeaders).map(([name, value]) => [name.toLowerCase(), value])) : undefined;
+  const withContext = (message: string, code?: string): GrokErrorDetails => ({
+    message,
+    ...(status !== undefined ? { status } : {}),
+    ...(code ? { code } : {}),
+    ...(headers ? { headers } : {}),
+  });
+
   let body: string | null = null;
   if (
     err &&
@@ -204,36 +623,79 @@ function getErrorMessage(err: unknown): string {
   ) {
     body = (err as { responseBody: string }).responseBody;
   } else if (err && typeof err === "object" && "data" in err) {
-    const data = (err as { data?: { error?: string | { message?: string } } }).data;
-    if (data && typeof data.error === "string") return data.error;
+    const data = (err as { data?: { error?: string | { message?: string; code?: string } } }).data;
+    if (data && typeof data.error === "string") return withContext(data.error);
     if (data?.error && typeof data.error === "object" && typeof data.error.message === "string")
-      return data.error.message;
+      return withContext(data.error.message, data.error.code);
   } else if (err instanceof Error && err.message.trim().startsWith("{")) {
     body = err.message;
   }
   if (body) {
-    try {
-      const parsed = JSON.parse(body) as { error?: string | { message?: string }; code?: string };
-      if (typeof parsed.error === "string") return parsed.error;
-      if (parsed.error && typeof parsed.error === "object" && typeof parsed.error.message === "string")
-        return parsed.error.message;
-    } catch {
-      // not JSON
-    }
+    const parsed = parseErrorBody(body);
+    if (parsed?.message) return withContext(parsed.message, parsed.code);
   }
   if (err instanceof Error) {
     if ("cause" in err && err.cause !== undefined) {
       const fromCause = getErrorMessage(err.cause);
-      if (fromCause && fromCause !== "Request failed") return fromCause;
+      if (fromCause.message && fromCause.message !== "Request failed") return fromCause;
+    }
+    return withContext(err.message);
+  }
+  return { message: "Request failed" };
+}
+
+/**
+ * Turn anything a generation threw into a typed GrokError, falling back to the scope's
+ * failed-call trace for the HTTP status.
+ */
+function toGrokError(err: unknown, scope: GenerationScope): GrokError {
+  if (err instanceof GrokError) {
+    err.xaiTrace ??= scope.errorTrace;
+    err.retries = scope.retries;
+    err.jobEnded = scope.jobEnded;
+    return err;
+  }
+  const details = getErrorMessage(err);
+  const trace = scope.errorTrace;
+  if (details.status === undefined && trace) {
+    details.status = trace.status;
+    if (!details.code) {
+      const code = parseErrorBody(trace.body)?.code;
+      if (code) details.code = code;
+    }
+  }
+  const error = classifyGrokError(details, trace);
+  error.retries = scope.retries;
+  error.jobEnded = scope.jobEnded;
+  return error;
+}
+
+/** A GrokError for a failed xAI response that we called ourselves (no SDK in between). */
+async function readApiError(response: Response): Promise<GrokError> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+  let message = `Request failed with status ${response.status}`;
+  let code: string | undefined;
+  try {
+    const text = await response.text();
+    if (text) {
+      const parsed = parseErrorBody(text);
+      message = parsed?.message ?? text;
+      code = parsed?.code;
     }
-    return err.message;
+  } catch {
+    // Keep the status message
   }
-  return "Request failed";
+  return classifyGrokError({ message, status: response.status, ...(code ? { code } : {}), headers });
 }
 
 export interface ImageEditResult {
   dataUrls: string[];
   sourceUrls: string[];
+  /** Failed attempts that were retried on the way to this result. */
+  retries: RetryAttempt[];
 }
 
 /**
@@ -243,30 +705,31 @@ export interface ImageEditResult {
 export async function imageEdit(
   prompt: string,
   imageDataUri: string,
-  options?: { model?: "grok-imagine-image" | "grok-imagine-image-pro"; count?: number }
+  options?: { model?: "grok-imagine-image" | "grok-imagine-image-pro"; count?: number; signal?: AbortSignal }
 ): Promise<ImageEditResult> {
   const modelName = options?.model ?? "grok-imagine-image";
   const imageCount = options?.count ?? 1;
 
-  try {
-    // Clear captured URLs before generation
-    capturedCdnUrls = [];
+  const scope = createScope();
 
+  try {
     // Compress image before sending to API to reduce costs
     const compressed = await compressImage(imageDataUri, 1024, 0.85);
 
     const imageInput = compressed.startsWith("http")
-      ? new Uint8Array(await (await fetch(compressed)).arrayBuffer())
+      ? new Uint8Array(await (await fetch(compressed, { signal: options?.signal })).arrayBuffer())
       : dataUriToUint8Array(compressed);
 
     const { images } = await generateImage({
-      model: getXai().image(modelName),
+      model: getXai(scope).image(modelName),
       prompt: {
         text: prompt,
         images: [imageInput],
       },
       maxImagesPerCall: 10,
       n: imageCount,
+      abortSignal: options?.signal,
+      maxRetries: SDK_MAX_RETRIES,
     });
 
     if (!images || images.length === 0) throw new Error("No images in response");
@@ -278,62 +741,185 @@ export async function imageEdit(
       inputImage: imageDataUri,
       moderated: false,
       model: modelName,
+      usage: getScopeUsage(scope),
       metadata: { count: imageCount },
     });
 
     const dataUrls = images.map((img) => `data:${img.mediaType};base64,${img.base64}`);
-    const sourceUrls = [...capturedCdnUrls];
+    const sourceUrls = [...scope.cdnUrls];
 
-    return { dataUrls, sourceUrls };
+    return { dataUrls, sourceUrls, retries: scope.retries };
   } catch (err) {
-    const errorMessage = getErrorMessage(err);
-    const moderated = isModerationError(errorMessage);
+    if (options?.signal?.aborted) {
+      trackModerationEvent({
+        type: 'image',
+        prompt,
+        inputImage: imageDataUri,
+        moderated: false,
+        cancelled: true,
+        model: modelName,
+        usage: getScopeUsage(scope),
+        metadata: { count: imageCount },
+      });
+      throw cancelledError();
+    }
+
+    const error = toGrokError(err, scope);
 
     // Track moderation event
     trackModerationEvent({
       type: 'image',
       prompt,
       inputImage: imageDataUri,
-      moderated,
-      errorMessage,
+      moderated: error instanceof ModerationError,
+      errorMessage: error.message,
+      errorKind: error.kind,
       model: modelName,
+      usage: getScopeUsage(scope),
       metadata: { count: imageCount },
     });
 
-    throw new Error(errorMessage);
+    throw error;
+  }
+}
+
+/**
+ * Text to image: send only a prompt, returns image(s) as data URL(s) + CDN source URLs.
+ * Same models as imageEdit, but no input image is uploaded or billed.
+ */
+export async function textToImage(
+  prompt: string,
+  options?: { model?: "grok-imagine-image" | "grok-imagine-image-pro"; count?: number; signal?: AbortSignal }
+): Promise<ImageEditResult> {
+  const modelName = options?.model ?? "grok-imagine-image";
+  const imageCount = options?.count ?? 1;
+
+  const scope = createScope();
+
+  try {
+    const { images } = await generateImage({
+      model: getXai(scope).image(modelName),
+      prompt,
+      maxImagesPerCall: 10,
+      n: imageCount,
+      abortSignal: options?.signal,
+      maxRetries: SDK_MAX_RETRIES,
+    });
+
+    if (!images || images.length === 0) throw new Error("No images in response");
+
+    // Track successful generation
+    trackModerationEvent({
+      type: 'image',
+      prompt,
+      inputImage: "",
+      moderated: false,
+      model: modelName,
+      usage: getScopeUsage(scope),
+      metadata: { count: imageCount, mode: 'text' },
+    });
+
+    const dataUrls = images.map((img) => `data:${img.mediaType};base64,${img.base64}`);
+    const sourceUrls = [...scope.cdnUrls];
+
+    return { dataUrls, sourceUrls, retries: scope.retries };
+  } catch (err) {
+    if (options?.signal?.aborted) {
+      trackModerationEvent({
+        type: 'image',
+        prompt,
+        inputImage: "",
+        moderated: false,
+        cancelled: true,
+        model: modelName,
+        usage: getScopeUsage(scope),
+        metadata: { count: imageCount, mode: 'text' },
+      });
+      throw cancelledError();
+    }
+
+    const error = toGrokError(err, scope);
+
+    // Track moderation event
+    trackModerationEvent({
+      type: 'image',
+      prompt,
+      inputImage: "",
+      moderated: error instanceof ModerationError,
+      errorMessage: error.message,
+      errorKind: error.kind,
+      model: modelName,
+      usage: getScopeUsage(scope),
+      metadata: { count: imageCount, mode: 'text' },
+    });
+
+    throw error;
   }
 }
 
 export interface VideoResult {
   dataUrl: string;
   sourceUrl: string | null;
+  /** Failed attempts that were retried on the way to this result. */
+  retries: RetryAttempt[];
+}
+
+interface VideoJobOptions {
+  pollTimeoutMs?: number;
+  pollIntervalMs?: number;
+  onJobCreated?: VideoJobCreatedCallback;
+  onProgress?: VideoProgressCallback;
+  signal?: AbortSignal;
+}
+
+/** Length and resolution read from the source video of an edit or extension, used to cost the run. */
+export interface VideoSourceInfo {
+  duration: number;
+  resolution: VideoResolution;
+}
+
+/**
+ * Tracking metadata for a source video. Edits and extensions always come out at the source's resolution.
+ */
+function sourceMetadata(source?: VideoSourceInfo | null): Record<string, unknown> {
+  return source ? { resolution: source.resolution, sourceDuration: source.duration, sourceResolution: source.resolution } : {};
 }
 
 async function runVideoJob(
+  scope: GenerationScope,
   endpoint: "/videos/edits" | "/videos/extensions",
   body: Record<string, unknown>,
-  options?: { pollTimeoutMs?: number; pollIntervalMs?: number }
+  options?: VideoJobOptions
 ): Promise<VideoResult> {
-  const baseURL = getBaseUrl();
-  const headers = {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${getApiKey()}`,
-  };
-
-  const createResponse = await fetch(`${baseURL}${endpoint}`, {
+  // grokFetch records the error trace and reports the request_id through scope.onJobCreated
+  const createResponse = await grokFetch(scope, `${getBaseUrl()}${endpoint}`, {
     method: "POST",
-    headers,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getApiKey()}`,
+    },
     body: JSON.stringify(body),
+    signal: options?.signal,
   });
 
   if (!createResponse.ok) {
-    throw new Error(await readApiError(createResponse));
+    throw await readApiError(createResponse);
   }
 
   const createJson = (await createResponse.json()) as { request_id?: string };
   const requestId = createJson.request_id;
   if (!requestId) throw new Error("No request_id returned from xAI API.");
 
+  return pollVideoJob(scope, requestId, options);
+}
+
+/** Poll /videos/{request_id} until the job finishes, then download the video through the proxy. */
+async function pollVideoJob(
+  scope: GenerationScope,
+  requestId: string,
+  options?: { pollTimeoutMs?: number; pollIntervalMs?: number; signal?: AbortSignal }
+): Promise<VideoResult> {
+  const baseURL = getBaseUrl();
   const pollTimeoutMs = options?.pollTimeoutMs ?? 900_000;
   const pollIntervalMs = options?.pollIntervalMs ?? 5_000;
   const startTime = Date.now();
@@ -341,26 +927,27 @@ async function runVideoJob(
 
   while (true) {
     if (Date.now() - startTime > pollTimeoutMs) {
-      throw new Error(`Video job timed out after ${pollTimeoutMs}ms`);
+      throw new TimeoutError({ message: `Video job timed out after ${Math.round(pollTimeoutMs / 1000)}s` });
     }
 
-    await new Promise((resolve) => window.setTimeout(resolve, pollIntervalMs));
+    await delay(pollIntervalMs, options?.signal);
 
-    const statusResponseRaw = await fetch(`${baseURL}/videos/${requestId}`, {
+    const statusResponseRaw = await grokFetch(scope, `${baseURL}/videos/${requestId}`, {
       headers: { Authorization: `Bearer ${getApiKey()}` },
+      signal: options?.signal,
     });
     if (!statusResponseRaw.ok) {
-      throw new Error(await readApiError(statusResponseRaw));
+      throw await readApiError(statusResponseRaw);
     }
 
     statusResponse = (await statusResponseRaw.json()) as { status?: string; video?: { url?: string; duration?: number } };
 
     if (statusResponse.status === "expired") {
-      throw new Error("Video request expired.");
+      throw new TimeoutError({ message: "Video request expired." });
     }
 
     if (statusResponse.status === "failed") {
-      throw new Error("Video request failed.");
+      throw new UpstreamError({ message: "Video request failed." });
     }
 
     if (statusResponse.status === "done" || (statusResponse.status == null && statusResponse.video?.url)) {
@@ -370,14 +957,16 @@ async function runVideoJob(
 
   const videoUrl = statusResponse?.video?.url;
   if (!videoUrl) {
-    throw new Error("Video request completed but no video URL was returned.");
+    scope.jobEnded = true;
+    throw new UpstreamError({ message: "Video request completed but no video URL was returned." });
   }
 
-  const downloaded = await proxyDownload({ url: new URL(videoUrl) });
+  const downloaded = await createProxyDownload(scope)({ url: new URL(videoUrl), abortSignal: options?.signal });
   const dataUrl = `data:${downloaded.mediaType ?? "video/mp4"};base64,${convertUint8ArrayToBase64(downloaded.data)}`;
-  const sourceUrl = capturedCdnUrls.length > 0 ? capturedCdnUrls[capturedCdnUrls.length - 1] : videoUrl;
+  const sourceUrl = scope.cdnUrls.length > 0 ? scope.cdnUrls[scope.cdnUrls.length - 1] : videoUrl;
+  scope.onProgress?.({ phase: "done" });
 
-  return { dataUrl, sourceUrl };
+  return { dataUrl, sourceUrl, retries: scope.retries };
 }
 
 /**
@@ -387,13 +976,18 @@ async function runVideoJob(
 export async function imageToVideo(
   prompt: string,
   imageDataUri: string,
-  options?: { duration?: number; aspectRatio?: string; resolution?: string }
+  options?: {
+    duration?: number;
+    aspectRatio?: VideoAspectRatio;
+    resolution?: string;
+    onJobCreated?: VideoJobCreatedCallback;
+    onProgress?: VideoProgressCallback;
+    signal?: AbortSignal;
+  }
 ): Promise<VideoResult> {
-  try {
-    clearLastXaiApiErrorTrace();
-    // Clear captured URLs before generation
-    capturedCdnUrls = [];
+  const scope = createScope(options?.onJobCreated, options?.onProgress);
 
+  try {
     // Compress image before sending to API to reduce costs
     const compressed = await compressImage(imageDataUri, 1024, 0.85);
 
@@ -415,16 +1009,14 @@ export async function imageToVideo(
     }
 
     const { videos } = await generateVideo({
-      model: getXai().video("grok-imagine-video"),
+      model: getXai(scope).video("grok-imagine-video"),
       prompt: {
         image: imageInput,
         text: prompt,
       },
       duration: options?.duration ?? 3,
       // Omit aspectRatio so the API uses the input image's aspect ratio (xAI default for image-to-video).
-      ...(options?.aspectRatio != null && {
-        aspectRatio: options.aspectRatio as "16:9" | "1:1" | "9:16" | "4:3" | "3:4" | "3:2" | "2:3",
-      }),
+      ...(options?.aspectRatio != null && { aspectRatio: options.aspectRatio }),
       resolution: resolutionDimensions,
       providerOptions: {
         xai: {
@@ -432,7 +1024,9 @@ export async function imageToVideo(
         },
       },
       // SDK downloads the video URL with its own fetch (CORS). Use our proxy for vidgen.x.ai.
-      download: proxyDownload,
+      download: createProxyDownload(scope),
+      abortSignal: options?.signal,
+      maxRetries: SDK_MAX_RETRIES,
     });
 
     const first = videos?.[0];
@@ -445,6 +1039,7 @@ export async function imageToVideo(
       inputImage: imageDataUri,
       moderated: false,
       model: 'grok-imagine-video',
+      usage: getScopeUsage(scope),
       metadata: {
         mode: "generate",
         duration: options?.duration ?? 3,
@@ -453,28 +1048,145 @@ export async function imageToVideo(
     });
 
     const dataUrl = `data:${first.mediaType};base64,${first.base64}`;
-    const sourceUrl = capturedCdnUrls.length > 0 ? capturedCdnUrls[capturedCdnUrls.length - 1] : null;
+    const sourceUrl = scope.cdnUrls.length > 0 ? scope.cdnUrls[scope.cdnUrls.length - 1] : null;
+    scope.onProgress?.({ phase: "done" });
 
-    return { dataUrl, sourceUrl };
+    return { dataUrl, sourceUrl, retries: scope.retries };
   } catch (err) {
-    const errorMessage = getErrorMessage(err);
-    const moderated = isModerationError(errorMessage);
+    if (options?.signal?.aborted) {
+      trackModerationEvent({
+        type: 'video',
+        prompt,
+        inputImage: imageDataUri,
+        moderated: false,
+        cancelled: true,
+        requestId: scope.requestId ?? undefined,
+        model: 'grok-imagine-video',
+        usage: getScopeUsage(scope),
+        metadata: {
+          mode: "generate",
+          duration: options?.duration ?? 3,
+          resolution: options?.resolution ?? '480p',
+        },
+      });
+      throw cancelledError();
+    }
+
+    const error = toGrokError(err, scope);
 
     // Track moderation event
     trackModerationEvent({
       type: 'video',
       prompt,
       inputImage: imageDataUri,
-      moderated,
-      errorMessage,
+      moderated: error instanceof ModerationError,
+      errorMessage: error.message,
+      errorKind: error.kind,
       model: 'grok-imagine-video',
+      usage: getScopeUsage(scope),
       metadata: {
+        mode: "generate",
         duration: options?.duration ?? 3,
         resolution: options?.resolution ?? '480p',
       },
     });
 
-    throw new Error(errorMessage);
+    throw error;
+  }
+}
+
+/**
+ * Text-to-video: send only a prompt, returns video as data URL + CDN source URL.
+ * Same SDK path as imageToVideo, without an input image (and without its input fee).
+ */
+export async function textToVideo(
+  prompt: string,
+  options?: {
+    duration?: number;
+    aspectRatio?: VideoAspectRatio;
+    resolution?: string;
+    onJobCreated?: VideoJobCreatedCallback;
+    onProgress?: VideoProgressCallback;
+    signal?: AbortSignal;
+  }
+): Promise<VideoResult> {
+  const scope = createScope(options?.onJobCreated, options?.onProgress);
+  const metadata = {
+    mode: "text",
+    duration: options?.duration ?? 3,
+    resolution: options?.resolution ?? '480p',
+  };
+
+  try {
+    const { videos } = await generateVideo({
+      model: getXai(scope).video("grok-imagine-video"),
+      prompt,
+      duration: options?.duration ?? 3,
+      // Without an input image the API falls back to its own default aspect ratio.
+      ...(options?.aspectRatio != null && { aspectRatio: options.aspectRatio }),
+      resolution: options?.resolution === "720p" ? "1280x720" : "854x480",
+      providerOptions: {
+        xai: {
+          pollTimeoutMs: 600_000, // 10 min
+        },
+      },
+      // SDK downloads the video URL with its own fetch (CORS). Use our proxy for vidgen.x.ai.
+      download: createProxyDownload(scope),
+      abortSignal: options?.signal,
+      maxRetries: SDK_MAX_RETRIES,
+    });
+
+    const first = videos?.[0];
+    if (!first) throw new Error("No video in response");
+
+    // Track successful generation
+    trackModerationEvent({
+      type: 'video',
+      prompt,
+      inputImage: "",
+      moderated: false,
+      model: 'grok-imagine-video',
+      usage: getScopeUsage(scope),
+      metadata,
+    });
+
+    const dataUrl = `data:${first.mediaType};base64,${first.base64}`;
+    const sourceUrl = scope.cdnUrls.length > 0 ? scope.cdnUrls[scope.cdnUrls.length - 1] : null;
+    scope.onProgress?.({ phase: "done" });
+
+    return { dataUrl, sourceUrl, retries: scope.retries };
+  } catch (err) {
+    if (options?.signal?.aborted) {
+      trackModerationEvent({
+        type: 'video',
+        prompt,
+        inputImage: "",
+        moderated: false,
+        cancelled: true,
+        requestId: scope.requestId ?? undefined,
+        model: 'grok-imagine-video',
+        usage: getScopeUsage(scope),
+        metadata,
+      });
+      throw cancelledError();
+    }
+
+    const error = toGrokError(err, scope);
+
+    // Track moderation event
+    trackModerationEvent({
+      type: 'video',
+      prompt,
+      inputImage: "",
+      moderated: error instanceof ModerationError,
+      errorMessage: error.message,
+      errorKind: error.kind,
+      model: 'grok-imagine-video',
+      usage: getScopeUsage(scope),
+      metadata,
+    });
+
+    throw error;
   }
 }
 
@@ -486,17 +1198,23 @@ export async function videoEdit(
   prompt: string,
   sourceVideoUrl: string,
   sourceVideoName?: string | null,
-  options?: { pollTimeoutMs?: number; pollIntervalMs?: number }
+  options?: VideoJobOptions & {
+    source?: VideoSourceInfo | null;
+    /** What the edit is billed for (getBilledVideo), so tracking prices it the same as the estimate and budget check. */
+    billed?: { duration: number; resolution: VideoResolution };
+  }
 ): Promise<VideoResult> {
+  const scope = createScope(options?.onJobCreated, options?.onProgress);
+  // Edits keep the source's length and resolution; without a known source, the billed values are the requested ones
+  const editMetadata = { ...options?.billed, ...sourceMetadata(options?.source) };
+
   try {
-    clearLastXaiApiErrorTrace();
     if (/^(data:|blob:|file:)/i.test(sourceVideoUrl)) {
       throw new Error("xAI video edits require a public, fetchable video URL. Local files need to be uploaded to a hosted URL first.");
     }
 
-    capturedCdnUrls = [];
-
     const result = await runVideoJob(
+      scope,
       "/videos/edits",
       {
         model: "grok-imagine-video",
@@ -512,33 +1230,57 @@ export async function videoEdit(
       inputImage: sourceVideoName ?? sourceVideoUrl,
       moderated: false,
       model: 'grok-imagine-video',
+      usage: getScopeUsage(scope),
       metadata: {
         mode: "edit",
         sourceVideoUrl,
         ...(sourceVideoName ? { sourceVideoName } : {}),
+        ...editMetadata,
       },
     });
 
     return result;
   } catch (err) {
-    const errorMessage = getErrorMessage(err);
-    const moderated = isModerationError(errorMessage);
+    if (options?.signal?.aborted) {
+      trackModerationEvent({
+        type: 'video',
+        prompt,
+        inputImage: sourceVideoName ?? sourceVideoUrl,
+        moderated: false,
+        cancelled: true,
+        requestId: scope.requestId ?? undefined,
+        model: 'grok-imagine-video',
+        usage: getScopeUsage(scope),
+        metadata: {
+          mode: "edit",
+          sourceVideoUrl,
+          ...(sourceVideoName ? { sourceVideoName } : {}),
+          ...editMetadata,
+        },
+      });
+      throw cancelledError();
+    }
+
+    const error = toGrokError(err, scope);
 
     trackModerationEvent({
       type: 'video',
       prompt,
       inputImage: sourceVideoName ?? sourceVideoUrl,
-      moderated,
-      errorMessage,
+      moderated: error instanceof ModerationError,
+      errorMessage: error.message,
+      errorKind: error.kind,
       model: 'grok-imagine-video',
+      usage: getScopeUsage(scope),
       metadata: {
         mode: "edit",
         sourceVideoUrl,
         ...(sourceVideoName ? { sourceVideoName } : {}),
+        ...editMetadata,
       },
     });
 
-    throw new Error(errorMessage);
+    throw error;
   }
 }
 
@@ -550,19 +1292,18 @@ export async function videoExtend(
   prompt: string,
   sourceVideoUrl: string,
   sourceVideoName?: string | null,
-  options?: { pollTimeoutMs?: number; pollIntervalMs?: number; duration?: number }
+  options?: VideoJobOptions & { duration?: number; source?: VideoSourceInfo | null }
 ): Promise<VideoResult> {
+  const scope = createScope(options?.onJobCreated, options?.onProgress);
+
   try {
-    clearLastXaiApiErrorTrace();
     if (/^(data:|blob:|file:)/i.test(sourceVideoUrl)) {
       throw new Error("xAI video extensions require a public, fetchable video URL. Local files need to be uploaded to a hosted URL first.");
     }
 
-    // Clear captured URLs before generation
-    capturedCdnUrls = [];
-
     const duration = options?.duration ?? 6;
     const result = await runVideoJob(
+      scope,
       "/videos/extensions",
       {
         model: "grok-imagine-video",
@@ -580,35 +1321,110 @@ export async function videoExtend(
       inputImage: sourceVideoName ?? sourceVideoUrl,
       moderated: false,
       model: 'grok-imagine-video',
+      usage: getScopeUsage(scope),
       metadata: {
         mode: "extend",
         sourceVideoUrl,
         ...(sourceVideoName ? { sourceVideoName } : {}),
         duration,
+        ...sourceMetadata(options?.source),
       },
     });
 
     return result;
   } catch (err) {
-    const errorMessage = getErrorMessage(err);
-    const moderated = isModerationError(errorMessage);
+    if (options?.signal?.aborted) {
+      trackModerationEvent({
+        type: 'video',
+        prompt,
+        inputImage: sourceVideoName ?? sourceVideoUrl,
+        moderated: false,
+        cancelled: true,
+        requestId: scope.requestId ?? undefined,
+        model: 'grok-imagine-video',
+        usage: getScopeUsage(scope),
+        metadata: {
+          mode: "extend",
+          sourceVideoUrl,
+          ...(sourceVideoName ? { sourceVideoName } : {}),
+          duration: options?.duration ?? 6,
+          ...sourceMetadata(options?.source),
+        },
+      });
+      throw cancelledError();
+    }
+
+    const error = toGrokError(err, scope);
 
     // Track moderation event
     trackModerationEvent({
       type: 'video',
       prompt,
       inputImage: sourceVideoName ?? sourceVideoUrl,
-      moderated,
-      errorMessage,
+      moderated: error instanceof ModerationError,
+      errorMessage: error.message,
+      errorKind: error.kind,
       model: 'grok-imagine-video',
+      usage: getScopeUsage(scope),
       metadata: {
         mode: "extend",
         sourceVideoUrl,
         ...(sourceVideoName ? { sourceVideoName } : {}),
         duration: options?.duration ?? 6,
+        ...sourceMetadata(options?.source),
       },
     });
 
-    throw new Error(errorMessage);
+    throw error;
+  }
+}
+
+/**
+ * Resume a video job recorded before a reload: keep polling its request_id and track the outcome.
+ * Pass `tracking: null` when the first attempt already recorded an event for the job, so it is not counted twice.
+ * Failures are never tracked: the job was billed (and tracked) once, and a resume may fail on every start until it is given up on.
+ */
+export async function resumeVideoJob(
+  requestId: string,
+  tracking: { prompt: string; inputImage: string; metadata: Record<string, unknown> } | null,
+  options?: { pollTimeoutMs?: number; pollIntervalMs?: number; onProgress?: VideoProgressCallback; signal?: AbortSignal }
+): Promise<VideoResult> {
+  const scope = createScope(undefined, options?.onProgress);
+
+  try {
+    const result = await pollVideoJob(scope, requestId, options);
+
+    if (tracking) {
+      trackModerationEvent({
+        type: 'video',
+        prompt: tracking.prompt,
+        inputImage: tracking.inputImage,
+        moderated: false,
+        model: 'grok-imagine-video',
+        usage: getScopeUsage(scope),
+        metadata: tracking.metadata,
+      });
+    }
+
+    return result;
+  } catch (err) {
+    if (options?.signal?.aborted) {
+      if (tracking) {
+        trackModerationEvent({
+          type: 'video',
+          prompt: tracking.prompt,
+          inputImage: tracking.inputImage,
+          moderated: false,
+          cancelled: true,
+          requestId,
+          model: 'grok-imagine-video',
+          usage: getScopeUsage(scope),
+          metadata: tracking.metadata,
+        });
+      }
+      throw cancelledError();
+    }
+
+    throw toGrokError(err, scope);
   }
 }
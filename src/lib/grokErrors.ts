@@ -0,0 +1,154 @@
+/**
+ * Typed errors for failed xAI calls. grokApi turns every failure into one of these (see toGrokError there),
+ * so tracking, preflight and the UI can branch on the kind instead of guessing from the message.
+ */
+
+import type { RetryAttempt, XaiApiErrorTrace } from "./grokApi";
+
+export type GrokErrorKind = "moderation" | "rate-limit" | "auth" | "insufficient-credits" | "timeout" | "upstream" | "unknown";
+
+/** What is known about a failure before it is classified. */
+export interface GrokErrorDetails {
+  message: string;
+  /** HTTP status of the failed xAI call, when there was one. */
+  status?: number;
+  /** Error code or type from the response body, e.g. "rate_limit_exceeded". */
+  code?: string;
+  /** Response headers of the failed call, lower-cased. */
+  headers?: Record<string, string>;
+}
+
+export class GrokError extends Error {
+  kind: GrokErrorKind = "unknown";
+  status?: number;
+  code?: string;
+  /** The failed xAI call behind this error, shown as diagnostics. */
+  xaiTrace: XaiApiErrorTrace | null;
+  /** Failed attempts made before giving up, including the last one. */
+  retries: RetryAttempt[] = [];
+  /** xAI reported the video job itself as failed or expired, so polling it again cannot help. */
+  jobEnded = false;
+
+  constructor(details: GrokErrorDetails, xaiTrace: XaiApiErrorTrace | null = null) {
+    super(details.message);
+    this.name = "GrokError";
+    this.status = details.status;
+    this.code = details.code;
+    this.xaiTrace = xaiTrace;
+  }
+}
+
+/** The prompt or input was blocked by xAI's content moderation. */
+export class ModerationError extends GrokError {
+  override kind: GrokErrorKind = "moderation";
+  override name = "ModerationError";
+}
+
+export class RateLimitError extends GrokError {
+  override kind: GrokErrorKind = "rate-limit";
+  override name = "RateLimitError";
+  /** How long xAI asked us to wait before retrying (Retry-After), if it said. */
+  retryAfterMs?: number;
+
+  constructor(details: GrokErrorDetails, xaiTrace: XaiApiErrorTrace | null = null) {
+    super(details, xaiTrace);
+    this.retryAfterMs = parseRetryAfter(details.headers?.["retry-after"]);
+  }
+}
+
+/** Missing, invalid or revoked API key, or a key without access to the model. */
+export class AuthError extends GrokError {
+  override kind: GrokErrorKind = "auth";
+  override name = "AuthError";
+}
+
+export class InsufficientCreditsError extends GrokError {
+  override kind: GrokErrorKind = "insufficient-credits";
+  override name = "InsufficientCreditsError";
+}
+
+/** The call or the video job took longer than we wait. */
+export class TimeoutError extends GrokError {
+  override kind: GrokErrorKind = "timeout";
+  override name = "TimeoutError";
+}
+
+/** xAI (or the network to it) failed on its side: 5xx, failed jobs, unreachable host. */
+export class UpstreamError extends GrokError {
+  override kind: GrokErrorKind = "upstream";
+  override name = "UpstreamError";
+}
+
+export const GROK_ERROR_LABELS: Record<GrokErrorKind, string> = {
+  moderation: "Moderated",
+  "rate-limit": "Rate limited",
+  auth: "Not authorized",
+  "insufficient-credits": "Out of credits",
+  timeout: "Timed out",
+  upstream: "xAI error",
+  unknown: "Failed",
+};
+
+/** What the user can do about each kind of failure. */
+export const GROK_ERROR_HINTS: Record<GrokErrorKind, string | null> = {
+  moderation: "xAI's content moderation blocked this. Rephrase the prompt or change the input before retrying.",
+  "rate-limit": "Too many requests at once. Wait a moment, or lower the batch concurrency, then retry.",
+  auth: "The API key was rejected. Log out and sign in again with a valid xAI API key.",
+  "insufficient-credits": "Your xAI team has run out of credits. Add credits in the xAI console, then retry.",
+  timeout: "xAI did not finish in time. The job may still complete; retry later.",
+  upstream: "xAI had a problem on its side. Retrying usually works.",
+  unknown: null,
+};
+
+// Moderation is only recognised from specific wording; generic words like "rejected" also appear in auth and billing errors
+const MODERATION_CODE = /moderat|content_policy|content_filter|safety/i;
+const MODERATION_MESSAGE = /moderat|content policy|policy violation|unsafe content|flagged|violates our|inappropriate/i;
+const CREDITS_CODE = /credit|billing|insufficient|quota|balance|payment/i;
+const CREDITS_MESSAGE = /credits?\b.*(exhausted|insufficient|run out|ran out|no remaining|not enough)|insufficient (credits|balance|funds)|spending limit|doesn't have any credits|out of credits/i;
+const RATE_LIMIT = /rate.?limit|too many requests/i;
+const AUTH_CODE = /auth|api.?key|permission|forbidden/i;
+const AUTH_MESSAGE = /api key|unauthori[sz]ed|invalid token|forbidden|permission denied|not authori[sz]ed/i;
+const TIMEOUT = /timed? ?out|timeout|deadline/i;
+const NETWORK = /failed to fetch|networkerror|network error|load failed|econn/i;
+
+/** Milliseconds from a Retry-After header (seconds or an HTTP date). */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Pick the error class from the HTTP status, error code and message. Credits and moderation are checked
+ * before auth because xAI can report both with a 403.
+ */
+export function classifyGrokError(details: GrokErrorDetails, xaiTrace: XaiApiErrorTrace | null = null): GrokError {
+  const { status, code = "", message } = details;
+
+  if (status === 402 || CREDITS_CODE.test(code) || CREDITS_MESSAGE.test(message)) {
+    return new InsufficientCreditsError(details, xaiTrace);
+  }
+  if (status === 429 || RATE_LIMIT.test(code) || RATE_LIMIT.test(message)) {
+    return new RateLimitError(details, xaiTrace);
+  }
+  if (MODERATION_CODE.test(code) || ((status === undefined || status < 500) && MODERATION_MESSAGE.test(message))) {
+    return new ModerationError(details, xaiTrace);
+  }
+  if (status === 401 || status === 403 || AUTH_CODE.test(code) || AUTH_MESSAGE.test(message)) {
+    return new AuthError(details, xaiTrace);
+  }
+  if (status === 408 || status === 504 || TIMEOUT.test(code) || TIMEOUT.test(message)) {
+    return new TimeoutError(details, xaiTrace);
+  }
+  if ((status !== undefined && status >= 500) || NETWORK.test(message)) {
+    return new UpstreamError(details, xaiTrace);
+  }
+  return new GrokError(details, xaiTrace);
+}
+
+/** The kind of a thrown error, or null for errors that did not come from an xAI call. */
+export function getGrokErrorKind(err: unknown): GrokErrorKind | null {
+  return err instanceof GrokError ? err.kind : null;
+}
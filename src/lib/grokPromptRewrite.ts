@@ -1,5 +1,6 @@
 import { generateText } from "ai";
 import { createXai } from "@ai-sdk/xai";
+import { inspectedFetch } from "./requestLog";
 
 let userApiKey: string | null = null;
 
@@ -26,6 +27,8 @@ function getXai() {
   return createXai({
     apiKey: getApiKey(),
     baseURL: getBaseUrl(),
+    // Log the calls in the request inspector alongside the generation traffic
+    fetch: inspectedFetch,
   });
 }
 
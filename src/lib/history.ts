@@ -1,91 +1,442 @@
-const HISTORY_KEY = "grok-generation-history";
-const MAX_HISTORY_ITEMS = 100; // Limit to prevent localStorage overflow
+/**
+ * Generation history, stored in IndexedDB (see historyDb.ts).
+ * Items are read newest-first in pages so the History page never loads everything at once.
+ */
+
+import { ITEMS_STORE, openHistoryDb } from "./historyDb";
+import { clearMedia, deleteMedia, inputMediaId } from "./mediaStore";
 
 export interface HistoryItem {
   id: string;
   type: "image" | "video";
   prompt: string;
   inputImage?: string; // Thumbnail of input (optional)
-  resultUrl: string; // Data URL of the result
+  resultUrl: string; // Data URL preview of the result (full media lives in the media store)
   timestamp: number;
+  /** History item this one was made from (edited image, animated image, edited or extended video). */
+  parentId?: string;
+  /** xAI URL of the result, needed to edit or extend a video again. May expire. */
+  sourceUrl?: string;
   metadata?: {
     duration?: number;
     resolution?: string;
+    aspectRatio?: string;
     model?: string;
     imageCount?: number;
-    mode?: "generate" | "edit" | "extend";
+    mode?: "generate" | "edit" | "extend" | "text";
     sourceVideoUrl?: string;
     sourceVideoName?: string;
     sourceVideoKey?: string;
+    /** Wall-clock time from submitting the video job to having the result, in ms. */
+    generationMs?: number;
   };
 }
 
 /**
- * Get all history items from localStorage
+ * Human-readable label for how an item was generated
+ */
+export function getModeLabel(item: HistoryItem): string | null {
+  const mode = item.metadata?.mode;
+  if (!mode) return null;
+  if (item.type === "image") {
+    return mode === "text" ? "Text to image" : "Image edit";
+  }
+  switch (mode) {
+    case "extend":
+      return "Video extension";
+    case "edit":
+      return "Video edit";
+    case "text":
+      return "Text to video";
+    default:
+      return "Image to video";
+  }
+}
+
+export type HistorySort = "newest" | "oldest";
+
+/** Filters for the History page; every field is optional and they combine with AND. */
+export interface HistoryFilters {
+  /** Words that must all appear in the prompt (case-insensitive). */
+  search?: string;
+  type?: HistoryItem["type"];
+  mode?: NonNullable<HistoryItem["metadata"]>["mode"];
+  model?: string;
+  resolution?: string;
+  /** Inclusive timestamp bounds in ms. */
+  from?: number;
+  to?: number;
+  sort?: HistorySort;
+}
+
+export interface HistoryQuery extends HistoryFilters {
+  /** Opaque cursor from a previous page's nextCursor; omit for the first page. */
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  /** Pass back as `cursor` to get the next page; null when there are no more items. */
+  nextCursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 24;
+
+/** Video entries predate storing a model name; they were all made with this one. */
+const DEFAULT_VIDEO_MODEL = "grok-imagine-video";
+
+/**
+ * Model used for an item, filling in the implied video model for older entries
+ */
+export function getItemModel(item: HistoryItem): string | undefined {
+  return item.metadata?.model ?? (item.type === "video" ? DEFAULT_VIDEO_MODEL : undefined);
+}
+
+function encodeCursor(item: HistoryItem): string {
+  return `${item.timestamp}:${item.id}`;
+}
+
+function decodeCursor(cursor: string): { timestamp: number; id: string } | null {
+  const separator = cursor.indexOf(":");
+  if (separator < 0) return null;
+  const timestamp = Number(cursor.slice(0, separator));
+  if (!Number.isFinite(timestamp)) return null;
+  return { timestamp, id: cursor.slice(separator + 1) };
+}
+
+/**
+ * Check the non-date filters against one item (the date range is applied through the timestamp index)
+ */
+function matchesFilters(item: HistoryItem, filters: HistoryFilters, terms: string[]): boolean {
+  if (filters.type && item.type !== filters.type) return false;
+  if (filters.mode && item.metadata?.mode !== filters.mode) return false;
+  if (filters.model && getItemModel(item) !== filters.model) return false;
+  if (filters.resolution && item.metadata?.resolution !== filters.resolution) return false;
+  if (terms.length > 0) {
+    const prompt = item.prompt.toLowerCase();
+    if (!terms.every((term) => prompt.includes(term))) return false;
+  }
+  return true;
+}
+
+function searchTerms(search?: string): string[] {
+  return (search ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Build the timestamp index range for the date filters and cursor.
+ * Returns null when the range cannot match anything (e.g. "from" after "to").
  */
-export function getHistory(): HistoryItem[] {
+function timestampRange(filters: HistoryFilters, after: { timestamp: number } | null, oldestFirst: boolean): IDBKeyRange | undefined | null {
+  let lower = filters.from;
+  let upper = filters.to;
+  // Resume from the cursor's timestamp (inclusive; ties are skipped by id)
+  if (after) {
+    if (oldestFirst) lower = Math.max(lower ?? after.timestamp, after.timestamp);
+    else upper = Math.min(upper ?? after.timestamp, after.timestamp);
+  }
+  if (lower !== undefined && upper !== undefined) {
+    return lower > upper ? null : IDBKeyRange.bound(lower, upper);
+  }
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper);
+  return undefined;
+}
+
+/**
+ * Get one page of history items matching the query, newest first unless sort is "oldest"
+ */
+export async function getHistoryPage(query: HistoryQuery = {}): Promise<HistoryPage> {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const oldestFirst = query.sort === "oldest";
+  const terms = searchTerms(query.search);
+
   try {
-    const stored = localStorage.getItem(HISTORY_KEY);
-    if (!stored) return [];
-    const items = JSON.parse(stored) as HistoryItem[];
-    // Sort by timestamp, newest first
-    return items.sort((a, b) => b.timestamp - a.timestamp);
+    const range = timestampRange(query, after, oldestFirst);
+    if (range === null) return { items: [], nextCursor: null };
+    const db = await openHistoryDb();
+    return await new Promise<HistoryPage>((resolve, reject) => {
+      const items: HistoryItem[] = [];
+      const transaction = db.transaction(ITEMS_STORE, "readonly");
+      const index = transaction.objectStore(ITEMS_STORE).index("timestamp");
+      const request = index.openCursor(range, oldestFirst ? "next" : "prev");
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ items, nextCursor: null });
+          return;
+        }
+
+        const item = cursor.value as HistoryItem;
+        // Items sharing the cursor's timestamp come back in id order (descending when newest first);
+        // skip the ones already returned
+        const alreadySeen =
+          after !== null &&
+          item.timestamp === after.timestamp &&
+          (oldestFirst ? item.id <= after.id : item.id >= after.id);
+
+        if (!alreadySeen && matchesFilters(item, query, terms)) {
+          if (items.length === limit) {
+            resolve({ items, nextCursor: encodeCursor(items[items.length - 1]) });
+            return;
+          }
+          items.push(item);
+        }
+        cursor.continue();
+      };
+    });
   } catch (err) {
     console.error("Failed to load history:", err);
-    return [];
+    return { items: [], nextCursor: null };
   }
 }
 
 /**
- * Add a new item to history
+ * Get a single history item by id
  */
-export function addToHistory(item: Omit<HistoryItem, "id" | "timestamp">): void {
+export async function getHistoryItem(id: string): Promise<HistoryItem | null> {
   try {
-    const history = getHistory();
-    const newItem: HistoryItem = {
-      ...item,
-      id: crypto.randomUUID(),
-      timestamp: Date.now(),
+    const db = await openHistoryDb();
+    return await new Promise<HistoryItem | null>((resolve, reject) => {
+      const request = db.transaction(ITEMS_STORE, "readonly").objectStore(ITEMS_STORE).get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as HistoryItem | undefined) ?? null);
+    });
+  } catch (err) {
+    console.error("Failed to load history item:", err);
+    return null;
+  }
+}
+
+/**
+ * Get every history item, oldest first (used for archive export).
+ * Unlike the page queries this throws on failure, so a partial export is never mistaken for a full one.
+ */
+export async function getAllHistoryItems(): Promise<HistoryItem[]> {
+  const db = await openHistoryDb();
+  return new Promise<HistoryItem[]>((resolve, reject) => {
+    const request = db.transaction(ITEMS_STORE, "readonly").objectStore(ITEMS_STORE).index("timestamp").getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result as HistoryItem[]);
+  });
+}
+
+export interface LineageNode {
+  item: HistoryItem;
+  children: LineageNode[];
+}
+
+function getHistoryChildren(db: IDBDatabase, parentId: string): Promise<HistoryItem[]> {
+  return new Promise<HistoryItem[]>((resolve, reject) => {
+    const request = db.transaction(ITEMS_STORE, "readonly").objectStore(ITEMS_STORE).index("parentId").getAll(parentId);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result as HistoryItem[]);
+  });
+}
+
+/**
+ * Get the whole lineage tree an item belongs to, rooted at its oldest ancestor still in history.
+ * Children are ordered oldest first. Returns null if the item does not exist.
+ */
+export async function getLineage(id: string): Promise<LineageNode | null> {
+  try {
+    let root = await getHistoryItem(id);
+    if (!root) return null;
+
+    // Walk up; a deleted ancestor simply ends the chain
+    const visited = new Set([root.id]);
+    while (root.parentId && !visited.has(root.parentId)) {
+      const parent = await getHistoryItem(root.parentId);
+      if (!parent) break;
+      visited.add(parent.id);
+      root = parent;
+    }
+
+    const db = await openHistoryDb();
+    const seen = new Set<string>();
+    const build = async (item: HistoryItem): Promise<LineageNode> => {
+      seen.add(item.id);
+      const children = (await getHistoryChildren(db, item.id))
+        .filter((child) => !seen.has(child.id))
+        .sort((a, b) => a.timestamp - b.timestamp);
+      const nodes: LineageNode[] = [];
+      for (const child of children) {
+        nodes.push(await build(child));
+      }
+      return { item, children: nodes };
     };
-    
-    // Add to beginning and limit size
-    const updated = [newItem, ...history].slice(0, MAX_HISTORY_ITEMS);
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(updated));
+    return await build(root);
   } catch (err) {
-    console.error("Failed to save to history:", err);
-    // If localStorage is full, try to clear old items
-    try {
-      const history = getHistory();
-      const reduced = [item, ...history.slice(0, 50)];
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(reduced));
-    } catch {
-      // Give up silently if still failing
+    console.error("Failed to load lineage:", err);
+    return null;
+  }
+}
+
+/**
+ * Count history items matching the filters
+ */
+export async function countHistory(filters: HistoryFilters = {}): Promise<number> {
+  const terms = searchTerms(filters.search);
+  const needsScan = terms.length > 0 || filters.mode || filters.model || filters.resolution || filters.from !== undefined || filters.to !== undefined;
+
+  try {
+    const db = await openHistoryDb();
+    const store = db.transaction(ITEMS_STORE, "readonly").objectStore(ITEMS_STORE);
+
+    if (!needsScan) {
+      // Plain counts can use the store or the type index directly
+      return await new Promise<number>((resolve, reject) => {
+        const request = filters.type ? store.index("type").count(filters.type) : store.count();
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+      });
     }
+
+    const range = timestampRange(filters, null, false);
+    if (range === null) return 0;
+
+    return await new Promise<number>((resolve, reject) => {
+      let count = 0;
+      const request = store.index("timestamp").openCursor(range);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(count);
+          return;
+        }
+        if (matchesFilters(cursor.value as HistoryItem, filters, terms)) count++;
+        cursor.continue();
+      };
+    });
+  } catch (err) {
+    console.error("Failed to count history:", err);
+    return 0;
   }
 }
 
+// Recent videos to base an estimate on; older runs say little about xAI's current speed
+const ESTIMATE_SAMPLE_SIZE = 30;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
 /**
- * Delete a specific history item by ID
+ * Expected generation time for a video, from how long recent ones took: the median of past runs with the same
+ * mode, resolution and duration, else the same mode, else any video. Null until a video has been timed.
  */
-export function deleteHistoryItem(id: string): void {
+export async function estimateVideoGenerationMs(job: { mode: string; resolution?: string; duration?: number }): Promise<number | null> {
+  try {
+    const db = await openHistoryDb();
+    const samples = await new Promise<HistoryItem[]>((resolve, reject) => {
+      const items: HistoryItem[] = [];
+      const request = db.transaction(ITEMS_STORE, "readonly").objectStore(ITEMS_STORE).index("timestamp").openCursor(null, "prev");
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || items.length === ESTIMATE_SAMPLE_SIZE) {
+          resolve(items);
+          return;
+        }
+        const item = cursor.value as HistoryItem;
+        if (item.type === "video" && item.metadata?.generationMs) items.push(item);
+        cursor.continue();
+      };
+    });
+
+    const sameMode = samples.filter((item) => (item.metadata?.mode ?? "generate") === job.mode);
+    const sameSettings = sameMode.filter(
+      (item) => item.metadata?.resolution === job.resolution && (job.mode === "edit" || item.metadata?.duration === job.duration)
+    );
+    const basis = [sameSettings, sameMode, samples].find((group) => group.length > 0);
+    return basis ? median(basis.map((item) => item.metadata!.generationMs!)) : null;
+  } catch (err) {
+    console.error("Failed to estimate video generation time:", err);
+    return null;
+  }
+}
+
+/**
+ * Add a new item to history
+ * Returns the new item's id (also the key for its full media), or null if it could not be saved.
+ */
+export async function addToHistory(item: Omit<HistoryItem, "id" | "timestamp">): Promise<string | null> {
+  const newItem: HistoryItem = {
+    ...item,
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+  };
+
   try {
-    const history = getHistory();
-    const updated = history.filter((item) => item.id !== id);
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(updated));
+    const db = await openHistoryDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(ITEMS_STORE, "readwrite");
+      transaction.objectStore(ITEMS_STORE).put(newItem);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    return newItem.id;
   } catch (err) {
-    console.error("Failed to delete history item:", err);
+    console.error("Failed to save to history:", err);
+    return null;
   }
 }
 
+/**
+ * Store items as-is, keeping their ids and timestamps (used for archive import).
+ * All items are written in one transaction; throws if it fails.
+ */
+export async function putHistoryItems(items: HistoryItem[]): Promise<void> {
+  if (items.length === 0) return;
+  const db = await openHistoryDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(ITEMS_STORE, "readwrite");
+    const store = transaction.objectStore(ITEMS_STORE);
+    items.forEach((item) => store.put(item));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Delete a specific history item by ID
+ */
+export async function deleteHistoryItem(id: string): Promise<void> {
+  await deleteHistoryItems([id]);
+}
+
 /**
  * Delete multiple history items by IDs
  */
-export function deleteHistoryItems(ids: string[]): void {
+export async function deleteHistoryItems(ids: string[]): Promise<void> {
   try {
-    const history = getHistory();
-    const idsSet = new Set(ids);
-    const updated = history.filter((item) => !idsSet.has(item.id));
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(updated));
+    const db = await openHistoryDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(ITEMS_STORE, "readwrite");
+      const store = transaction.objectStore(ITEMS_STORE);
+      ids.forEach((id) => store.delete(id));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    await deleteMedia([...ids, ...ids.map(inputMediaId)]);
   } catch (err) {
     console.error("Failed to delete history items:", err);
   }
@@ -94,9 +445,16 @@ export function deleteHistoryItems(ids: string[]): void {
 /**
  * Clear all history
  */
-export function clearHistory(): void {
+export async function clearHistory(): Promise<void> {
   try {
-    localStorage.removeItem(HISTORY_KEY);
+    const db = await openHistoryDb();
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction(ITEMS_STORE, "readwrite").objectStore(ITEMS_STORE).clear();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+    await clearMedia();
   } catch (err) {
     console.error("Failed to clear history:", err);
   }
@@ -133,11 +491,14 @@ export function createThumbnail(dataUrl: string, maxSize = 200): Promise<string>
         return;
       }
 
-      ctx.drawImage(img, 0, 0, width, height);
-
-      // Convert to JPEG with low quality for thumbnail
-      const thumbnail = canvas.toDataURL("image/jpeg", 0.6);
-      resolve(thumbnail);
+      try {
+        ctx.drawImage(img, 0, 0, width, height);
+        // Convert to JPEG with low quality for thumbnail
+        resolve(canvas.toDataURL("image/jpeg", 0.6));
+      } catch (err) {
+        // A cross-origin image taints the canvas and toDataURL throws
+        reject(err instanceof Error ? err : new Error("Failed to create thumbnail"));
+      }
     };
     img.onerror = () => reject(new Error("Failed to load image"));
     img.src = dataUrl;
@@ -198,3 +559,34 @@ export function createVideoThumbnail(videoDataUrl: string, maxSize = 200): Promi
     video.src = videoDataUrl;
   });
 }
+
+/**
+ * Read a video's length (seconds) and frame size without downloading the whole file
+ */
+export function readVideoMetadata(src: string): Promise<{ duration: number; width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+
+    const cleanup = () => {
+      video.removeAttribute("src");
+      video.load();
+    };
+
+    video.preload = "metadata";
+    video.onloadedmetadata = () => {
+      const { duration, videoWidth: width, videoHeight: height } = video;
+      cleanup();
+      if (!Number.isFinite(duration) || duration <= 0) {
+        reject(new Error("Could not read the MP4 duration."));
+        return;
+      }
+      resolve({ duration, width, height });
+    };
+    video.onerror = () => {
+      cleanup();
+      reject(new Error("Could not read the MP4 metadata."));
+    };
+
+    video.src = src;
+  });
+}
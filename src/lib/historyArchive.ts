@@ -0,0 +1,229 @@
+/**
+ * Portable history archives: a ZIP with a JSON manifest plus every stored media file,
+ * so history can move between browsers or be shared with teammates.
+ *
+ * Layout:
+ *  manifest.json      - items, moderation events and settings (see HistoryArchiveManifest)
+ *  media/<id>.<ext>        - full-size binary for each item that still has one
+ *  media/<id>-input.<ext>  - full-size input image for edits and animations, when stored
+ */
+
+import { getAllHistoryItems, putHistoryItems, type HistoryItem } from "./history";
+import { getMedia, getMediaExtension, inputMediaId, saveMediaBlob } from "./mediaStore";
+import { getModerationHistory, mergeModerationEvents, type ModerationEvent } from "./moderationTracking";
+import { isAutoSaveEnabled } from "./autoSave";
+import { createZip, readZip, type ZipEntry } from "./zip";
+
+const ARCHIVE_FORMAT = "grok-history-archive";
+const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = "manifest.json";
+
+export interface ArchivedMedia {
+  /** Path of the binary inside the archive. */
+  file: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface ArchivedItem extends HistoryItem {
+  /** SHA-256 of the full media, or of the preview when there is none. Used to spot duplicates. */
+  contentHash: string;
+  media?: ArchivedMedia;
+  inputMedia?: ArchivedMedia;
+}
+
+export interface HistoryArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: ArchivedItem[];
+  moderationEvents: ModerationEvent[];
+  settings: {
+    /**
+     * Whether auto-save was on. The folder itself cannot be exported (browsers only grant
+     * access to a folder the user picks), so importing only reports this back.
+     */
+    autoSaveEnabled: boolean;
+  };
+}
+
+export interface HistoryImportResult {
+  itemsAdded: number;
+  /** Items skipped because the same id or the same content is already in history. */
+  itemsSkipped: number;
+  mediaAdded: number;
+  moderationEventsAdded: number;
+  autoSaveEnabled: boolean;
+}
+
+async function sha256(data: Blob | string): Promise<string> {
+  const buffer = typeof data === "string" ? new TextEncoder().encode(data) : await data.arrayBuffer();
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", buffer));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function contentHash(item: HistoryItem, media: Blob | null): Promise<string> {
+  return sha256(media ?? item.resultUrl);
+}
+
+/**
+ * Build an archive of the whole history, moderation log and settings
+ */
+export async function exportHistoryArchive(): Promise<Blob> {
+  const items = await getAllHistoryItems();
+  const archived: ArchivedItem[] = [];
+  const files: ZipEntry[] = [];
+
+  for (const item of items) {
+    const media = await getMedia(item.id);
+    const entry: ArchivedItem = { ...item, contentHash: await contentHash(item, media) };
+    if (media) {
+      const file = `media/${item.id}.${getMediaExtension(media.type, item.type)}`;
+      entry.media = { file, mimeType: media.type, size: media.size };
+      files.push({ name: file, data: media });
+    }
+    const input = await getMedia(inputMediaId(item.id));
+    if (input) {
+      const file = `media/${item.id}-input.${getMediaExtension(input.type, "image")}`;
+      entry.inputMedia = { file, mimeType: input.type, size: input.size };
+      files.push({ name: file, data: input });
+    }
+    archived.push(entry);
+  }
+
+  const manifest: HistoryArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    items: archived,
+    moderationEvents: getModerationHistory(),
+    settings: { autoSaveEnabled: isAutoSaveEnabled() },
+  };
+  const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], { type: "application/json" });
+
+  return createZip([{ name: MANIFEST_NAME, data: manifestBlob }, ...files]);
+}
+
+function isArchivedItem(value: unknown): value is ArchivedItem {
+  if (!value || typeof value !== "object") return false;
+  const item = value as Partial<ArchivedItem>;
+  return (
+    typeof item.id === "string" &&
+    (item.type === "image" || item.type === "video") &&
+    typeof item.prompt === "string" &&
+    typeof item.resultUrl === "string" &&
+    typeof item.timestamp === "number"
+  );
+}
+
+/**
+ * Strip the archive-only fields before an item goes back into history
+ */
+function toHistoryItem(archived: ArchivedItem): HistoryItem {
+  const item: Partial<ArchivedItem> = { ...archived };
+  delete item.contentHash;
+  delete item.media;
+  delete item.inputMedia;
+  return item as HistoryItem;
+}
+
+function readArchivedMedia(entries: Map<string, Blob>, media: ArchivedMedia | undefined): Blob | null {
+  const file = media ? entries.get(media.file) : undefined;
+  return file && media ? new Blob([file], { type: media.mimeType }) : null;
+}
+
+async function readManifest(entries: Map<string, Blob>): Promise<HistoryArchiveManifest> {
+  const manifestBlob = entries.get(MANIFEST_NAME);
+  if (!manifestBlob) {
+    throw new Error("This ZIP is not a history archive (manifest.json is missing)");
+  }
+
+  let manifest: Partial<HistoryArchiveManifest>;
+  try {
+    manifest = JSON.parse(await manifestBlob.text()) as Partial<HistoryArchiveManifest>;
+  } catch {
+    throw new Error("The archive manifest is not valid JSON");
+  }
+  if (manifest.format !== ARCHIVE_FORMAT || typeof manifest.version !== "number") {
+    throw new Error("This ZIP is not a history archive");
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error("This archive was made by a newer version of the app");
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: manifest.version,
+    exportedAt: typeof manifest.exportedAt === "number" ? manifest.exportedAt : 0,
+    items: Array.isArray(manifest.items) ? manifest.items.filter(isArchivedItem) : [],
+    moderationEvents: Array.isArray(manifest.moderationEvents) ? manifest.moderationEvents : [],
+    settings: { autoSaveEnabled: manifest.settings?.autoSaveEnabled === true },
+  };
+}
+
+/**
+ * Merge an archive into the current history.
+ * Items whose id already exists, or whose content matches an existing item, are skipped.
+ */
+export async function importHistoryArchive(archive: Blob): Promise<HistoryImportResult> {
+  const entries = new Map((await readZip(archive)).map((entry) => [entry.name, entry.data] as const));
+  const manifest = await readManifest(entries);
+
+  const existing = await getAllHistoryItems();
+  const knownIds = new Set(existing.map((item) => item.id));
+  let knownHashes: Set<string> | null = null;
+
+  const added: Array<{ item: HistoryItem; media: Blob | null; input: Blob | null }> = [];
+  let itemsSkipped = 0;
+
+  for (const archived of manifest.items) {
+    if (knownIds.has(archived.id)) {
+      itemsSkipped++;
+      continue;
+    }
+
+    // Hashing existing media is only worth doing once something new turns up
+    if (!knownHashes) {
+      knownHashes = new Set<string>();
+      for (const item of existing) {
+        knownHashes.add(await contentHash(item, await getMedia(item.id)));
+      }
+    }
+
+    const item = toHistoryItem(archived);
+    const media = readArchivedMedia(entries, archived.media);
+    // Recompute rather than trust the manifest, so edited archives can't slip duplicates in
+    const hash = await contentHash(item, media);
+    if (knownHashes.has(hash)) {
+      itemsSkipped++;
+      continue;
+    }
+
+    knownIds.add(item.id);
+    knownHashes.add(hash);
+    added.push({ item, media, input: readArchivedMedia(entries, archived.inputMedia) });
+  }
+
+  await putHistoryItems(added.map(({ item }) => item));
+
+  let mediaAdded = 0;
+  for (const { item, media, input } of added) {
+    if (media && (await saveMediaBlob(item.id, media))) mediaAdded++;
+    if (input) await saveMediaBlob(inputMediaId(item.id), input);
+  }
+
+  return {
+    itemsAdded: added.length,
+    itemsSkipped,
+    mediaAdded,
+    moderationEventsAdded: mergeModerationEvents(manifest.moderationEvents),
+    autoSaveEnabled: manifest.settings.autoSaveEnabled,
+  };
+}
+
+/**
+ * Filename for a new export, e.g. grok-history-2025-01-31.zip
+ */
+export function getArchiveFilename(date = new Date()): string {
+  return `grok-history-${date.toISOString().slice(0, 10)}.zip`;
+}
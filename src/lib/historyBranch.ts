@@ -0,0 +1,172 @@
+/**
+ * Starting new generations from history:
+ *  - branching loads an item as the source of a new generation, so the result joins the
+ *    same lineage tree (see getLineage in history.ts)
+ *  - remixing reloads an item's own prompt, settings and source so it can be re-run or tweaked
+ */
+
+import { getHistoryItem, type HistoryItem } from "./history";
+import { blobToDataUrl, getMedia, inputMediaId } from "./mediaStore";
+import { VIDEO_ASPECT_RATIOS } from "./grokApi";
+import type { ImageToImageState, ImageToVideoState } from "../context/AppStateContext";
+
+export type BranchAction = "edit-image" | "animate" | "edit-video" | "extend";
+
+export interface BranchOption {
+  action: BranchAction;
+  label: string;
+  /** Why the action is unavailable for this item, or null when it can be used. */
+  disabledReason: string | null;
+}
+
+export interface BranchTarget {
+  path: "/" | "/image-to-video";
+  imageToImage?: Partial<ImageToImageState>;
+  imageToVideo?: Partial<ImageToVideoState>;
+}
+
+// Same limits the Image to Video page applies when switching modes
+const EXTEND_DURATION_MIN = 2;
+const EXTEND_DURATION_MAX = 10;
+const EDIT_DURATION_MAX = 8.7;
+
+/**
+ * Ways to start a new generation from an item
+ */
+export function getBranchOptions(item: HistoryItem): BranchOption[] {
+  if (item.type === "image") {
+    return [
+      { action: "edit-image", label: "Edit image", disabledReason: null },
+      { action: "animate", label: "Animate", disabledReason: null },
+    ];
+  }
+
+  // xAI fetches the source video by URL, so older entries without one can't be reused
+  const disabledReason = item.sourceUrl ? null : "This video has no xAI link saved, so it can't be used as a source.";
+  return [
+    { action: "extend", label: "Extend", disabledReason },
+    { action: "edit-video", label: "Edit video", disabledReason },
+  ];
+}
+
+/**
+ * Generator page and state for branching from an item.
+ * `imageDataUrl` is the full image (or its preview if the full one is gone); only used for image items.
+ */
+export function buildBranch(item: HistoryItem, action: BranchAction, imageDataUrl: string, currentDuration: number): BranchTarget {
+  switch (action) {
+    case "edit-image":
+      return {
+        path: "/",
+        imageToImage: { mode: "edit", preview: imageDataUrl, previewHistoryId: item.id, error: null },
+      };
+    case "animate":
+      return {
+        path: "/image-to-video",
+        imageToVideo: {
+          mode: "generate",
+          preview: imageDataUrl,
+          previewHistoryId: item.id,
+          sourceVideoUrl: "",
+          sourceVideoName: null,
+          sourceVideoKey: null,
+          sourceVideoHistoryId: null,
+          error: null,
+        },
+      };
+    case "edit-video":
+    case "extend":
+      return {
+        path: "/image-to-video",
+        imageToVideo: {
+          mode: action === "extend" ? "extend" : "edit",
+          sourceVideoUrl: item.sourceUrl ?? "",
+          sourceVideoName: null,
+          sourceVideoKey: null,
+          sourceVideoHistoryId: item.id,
+          error: null,
+          duration:
+            action === "extend"
+              ? Math.min(EXTEND_DURATION_MAX, Math.max(EXTEND_DURATION_MIN, currentDuration))
+              : Math.min(EDIT_DURATION_MAX, Math.max(1, currentDuration)),
+        },
+      };
+  }
+}
+
+export interface RemixSources {
+  /** Full-size image the item was made from (edits and image-to-video). */
+  image: string | null;
+  /** Video the item was made from (video edits and extensions). */
+  videoUrl: string | null;
+}
+
+async function getMediaDataUrl(item: HistoryItem): Promise<string> {
+  const media = await getMedia(item.id);
+  return media ? blobToDataUrl(media) : item.resultUrl;
+}
+
+/**
+ * Find the sources an item was made from.
+ * Images come from the stored input, else the parent's media, else the input thumbnail kept in history;
+ * videos from the saved source link, else the parent's xAI link.
+ */
+export async function getRemixSources(item: HistoryItem): Promise<RemixSources> {
+  const mode = item.metadata?.mode;
+  const usesImage = item.type === "image" ? mode !== "text" : mode === "generate" || mode === undefined;
+  const usesVideo = item.type === "video" && (mode === "edit" || mode === "extend");
+  const parent = item.parentId ? await getHistoryItem(item.parentId) : null;
+
+  let image: string | null = null;
+  if (usesImage) {
+    const input = await getMedia(inputMediaId(item.id));
+    if (input) image = await blobToDataUrl(input);
+    else if (parent?.type === "image") image = await getMediaDataUrl(parent);
+    else image = item.inputImage ?? null;
+  }
+
+  const videoUrl = usesVideo ? item.metadata?.sourceVideoUrl ?? (parent?.type === "video" ? parent.sourceUrl : undefined) ?? null : null;
+
+  return { image, videoUrl };
+}
+
+/**
+ * Generator page and state that re-create an item: same prompt, settings, mode and source
+ */
+export function buildRemix(item: HistoryItem, sources: RemixSources): BranchTarget {
+  const metadata = item.metadata ?? {};
+
+  if (item.type === "image") {
+    const mode = metadata.mode === "text" ? "text" : "edit";
+    return {
+      path: "/",
+      imageToImage: {
+        mode,
+        prompt: item.prompt,
+        model: metadata.model === "grok-imagine-image-pro" ? "grok-imagine-image-pro" : "grok-imagine-image",
+        imageCount: metadata.imageCount ?? 1,
+        ...(mode === "edit" ? { preview: sources.image, previewHistoryId: item.parentId ?? null } : {}),
+        error: null,
+      },
+    };
+  }
+
+  const mode = metadata.mode ?? "generate";
+  const usesSourceVideo = mode === "edit" || mode === "extend";
+  return {
+    path: "/image-to-video",
+    imageToVideo: {
+      mode,
+      prompt: item.prompt,
+      ...(metadata.duration ? { duration: metadata.duration } : {}),
+      resolution: metadata.resolution === "720p" ? "720p" : "480p",
+      aspectRatio: VIDEO_ASPECT_RATIOS.find((ratio) => ratio === metadata.aspectRatio) ?? null,
+      ...(mode === "generate" ? { preview: sources.image, previewHistoryId: item.parentId ?? null } : {}),
+      sourceVideoUrl: usesSourceVideo ? sources.videoUrl ?? "" : "",
+      sourceVideoName: usesSourceVideo ? metadata.sourceVideoName ?? null : null,
+      sourceVideoKey: usesSourceVideo ? metadata.sourceVideoKey ?? null : null,
+      sourceVideoHistoryId: usesSourceVideo ? item.parentId ?? null : null,
+      error: null,
+    },
+  };
+}
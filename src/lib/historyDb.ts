@@ -0,0 +1,106 @@
+/**
+ * Shared IndexedDB database for generation history.
+ * Every store that belongs to history lives here so upgrades happen in one place.
+ *
+ * Versions:
+ *  1 - media store (full-size binaries)
+ *  2 - items store with indexes, migrated from the old localStorage array
+ *  3 - parentId index on items, for lineage lookups
+ */
+
+const DB_NAME = "grok-history-db";
+const DB_VERSION = 3;
+
+/** Full-size image and video binaries, keyed by history item id. */
+export const MEDIA_STORE = "media";
+/** History entries (prompt, thumbnails, metadata), keyed by id. */
+export const ITEMS_STORE = "items";
+
+/** Pre-IndexedDB history lived in localStorage under this key. */
+const LEGACY_HISTORY_KEY = "grok-generation-history";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Copy the legacy localStorage history into the items store.
+ * Runs inside the upgrade transaction, so either every item lands or none do.
+ */
+function migrateLegacyHistory(store: IDBObjectStore): boolean {
+  let stored: string | null;
+  try {
+    stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  } catch {
+    return false;
+  }
+  if (!stored) return false;
+
+  try {
+    const items = JSON.parse(stored) as Array<{ id?: string; timestamp?: number }>;
+    for (const item of items) {
+      if (!item || typeof item !== "object") continue;
+      store.put({
+        ...item,
+        id: item.id ?? crypto.randomUUID(),
+        timestamp: item.timestamp ?? Date.now(),
+      });
+    }
+    return true;
+  } catch (err) {
+    // Leave the legacy data in place so nothing is lost; it can be retried by hand
+    console.error("Failed to migrate history from localStorage:", err);
+    return false;
+  }
+}
+
+/**
+ * Open (and upgrade if needed) the history database.
+ * The connection is cached for the lifetime of the page.
+ */
+export function openHistoryDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedLegacy = false;
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      // The upgrade transaction has committed by now, so the legacy copy is safe to drop
+      if (migratedLegacy) {
+        try {
+          localStorage.removeItem(LEGACY_HISTORY_KEY);
+        } catch {
+          // Not fatal; the items are already in IndexedDB
+        }
+      }
+      resolve(request.result);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        const media = db.createObjectStore(MEDIA_STORE, { keyPath: "id" });
+        media.createIndex("storedAt", "storedAt");
+      }
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+        const items = db.createObjectStore(ITEMS_STORE, { keyPath: "id" });
+        items.createIndex("timestamp", "timestamp");
+        items.createIndex("type", "type");
+        items.createIndex("mode", "metadata.mode");
+        items.createIndex("model", "metadata.model");
+        migratedLegacy = migrateLegacyHistory(items);
+      }
+      const itemsStore = request.transaction!.objectStore(ITEMS_STORE);
+      if (!itemsStore.indexNames.contains("parentId")) {
+        itemsStore.createIndex("parentId", "parentId");
+      }
+    };
+  });
+
+  // Allow a later retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
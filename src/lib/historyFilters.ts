@@ -0,0 +1,67 @@
+/**
+ * History filters <-> URL query string, so a filtered History view can be bookmarked or shared.
+ *
+ * Params: q (prompt search), type, mode, model, res, from / to (YYYY-MM-DD, local time), sort.
+ */
+
+import type { HistoryFilters, HistoryItem } from "./history";
+
+export const HISTORY_FILTER_PARAMS = ["q", "type", "mode", "model", "res", "from", "to", "sort"] as const;
+export type HistoryFilterParam = (typeof HISTORY_FILTER_PARAMS)[number];
+
+const TYPES: HistoryItem["type"][] = ["image", "video"];
+const MODES: NonNullable<NonNullable<HistoryItem["metadata"]>["mode"]>[] = ["generate", "edit", "extend", "text"];
+
+function parseDay(value: string | null, endOfDay: boolean): number | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const time = new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`).getTime();
+  return Number.isFinite(time) ? time : undefined;
+}
+
+/**
+ * Read filters from the URL, ignoring unknown or malformed values
+ */
+export function parseHistoryFilters(params: URLSearchParams): HistoryFilters {
+  const type = params.get("type");
+  const mode = params.get("mode");
+
+  return {
+    search: params.get("q")?.trim() || undefined,
+    type: TYPES.find((t) => t === type),
+    mode: MODES.find((m) => m === mode),
+    model: params.get("model") || undefined,
+    resolution: params.get("res") || undefined,
+    from: parseDay(params.get("from"), false),
+    to: parseDay(params.get("to"), true),
+    sort: params.get("sort") === "oldest" ? "oldest" : "newest",
+  };
+}
+
+/**
+ * Return a copy of the params with one filter set (or removed when the value is empty)
+ */
+export function withHistoryFilter(params: URLSearchParams, key: HistoryFilterParam, value: string): URLSearchParams {
+  const next = new URLSearchParams(params);
+  if (value && !(key === "sort" && value === "newest")) {
+    next.set(key, value);
+  } else {
+    next.delete(key);
+  }
+  return next;
+}
+
+/**
+ * Whether any filter (other than sort order) is active
+ */
+export function hasActiveHistoryFilters(params: URLSearchParams): boolean {
+  return HISTORY_FILTER_PARAMS.some((key) => key !== "sort" && params.get(key));
+}
+
+/**
+ * Return a copy of the params with every history filter removed
+ */
+export function clearHistoryFilters(params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  HISTORY_FILTER_PARAMS.forEach((key) => next.delete(key));
+  return next;
+}
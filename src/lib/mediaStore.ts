@@ -0,0 +1,269 @@
+/**
+ * Blob store for full-size history media.
+ * localStorage only has room for thumbnails, so the actual image/video binaries are kept
+ * in IndexedDB under the history item's id and loaded on demand.
+ */
+
+import { MEDIA_STORE, openHistoryDb } from "./historyDb";
+
+export interface StoredMedia {
+  id: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  storedAt: number;
+}
+
+export interface MediaUsage {
+  /** Number of stored blobs. */
+  count: number;
+  /** Bytes taken by stored blobs. */
+  bytes: number;
+  /** Origin-wide usage and quota from the Storage API, when the browser reports them. */
+  originUsage: number | null;
+  originQuota: number | null;
+}
+
+/**
+ * Key for the full-size input image of a history item (the image that was edited or animated),
+ * stored next to the result so the generation can be remixed later
+ */
+export function inputMediaId(id: string): string {
+  return `${id}:input`;
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "QuotaExceededError";
+}
+
+async function putMedia(record: StoredMedia): Promise<void> {
+  const db = await openHistoryDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(MEDIA_STORE, "readwrite");
+    transaction.objectStore(MEDIA_STORE).put(record);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Get all stored media metadata (without reading blobs into memory), oldest first
+ */
+async function listMedia(): Promise<Array<Omit<StoredMedia, "blob">>> {
+  const db = await openHistoryDb();
+  return new Promise((resolve, reject) => {
+    const entries: Array<Omit<StoredMedia, "blob">> = [];
+    const transaction = db.transaction(MEDIA_STORE, "readonly");
+    const request = transaction.objectStore(MEDIA_STORE).index("storedAt").openCursor();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(entries);
+        return;
+      }
+      const { id, mimeType, size, storedAt } = cursor.value as StoredMedia;
+      entries.push({ id, mimeType, size, storedAt });
+      cursor.continue();
+    };
+  });
+}
+
+/**
+ * Write a blob, evicting the oldest quarter of stored media and retrying once if the browser is out of quota
+ */
+async function storeBlob(id: string, blob: Blob): Promise<void> {
+  const record: StoredMedia = { id, blob, mimeType: blob.type, size: blob.size, storedAt: Date.now() };
+
+  try {
+    await putMedia(record);
+  } catch (err) {
+    if (!isQuotaError(err)) throw err;
+    const entries = await listMedia();
+    await deleteMedia(entries.slice(0, Math.max(1, Math.ceil(entries.length / 4))).map((entry) => entry.id));
+    await putMedia(record);
+  }
+}
+
+/**
+ * Store the full binary for a history item.
+ * If the browser is out of quota, the oldest quarter of stored media is evicted and the write retried once.
+ */
+export async function saveMedia(id: string, dataUrl: string): Promise<void> {
+  if (!("indexedDB" in window)) return;
+
+  try {
+    const blob = await (await fetch(dataUrl)).blob();
+    await storeBlob(id, blob);
+  } catch (err) {
+    console.error("Failed to store media:", err);
+  }
+}
+
+/**
+ * Store an existing blob for a history item (used when importing archives).
+ * Returns false if it could not be stored.
+ */
+export async function saveMediaBlob(id: string, blob: Blob): Promise<boolean> {
+  if (!("indexedDB" in window)) return false;
+
+  try {
+    await storeBlob(id, blob);
+    return true;
+  } catch (err) {
+    console.error("Failed to store media:", err);
+    return false;
+  }
+}
+
+/**
+ * Load the full binary for a history item, or null if it was never stored or has been evicted
+ */
+export async function getMedia(id: string): Promise<Blob | null> {
+  if (!("indexedDB" in window)) return null;
+
+  try {
+    const db = await openHistoryDb();
+    const record = await new Promise<StoredMedia | undefined>((resolve, reject) => {
+      const transaction = db.transaction(MEDIA_STORE, "readonly");
+      const request = transaction.objectStore(MEDIA_STORE).get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result as StoredMedia | undefined);
+    });
+    return record?.blob ?? null;
+  } catch (err) {
+    console.error("Failed to load media:", err);
+    return null;
+  }
+}
+
+/**
+ * Read a stored blob back as a data URL, for feeding it into a generator
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Delete stored media for the given history ids
+ */
+export async function deleteMedia(ids: string[]): Promise<void> {
+  if (ids.length === 0 || !("indexedDB" in window)) return;
+
+  try {
+    const db = await openHistoryDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(MEDIA_STORE, "readwrite");
+      const store = transaction.objectStore(MEDIA_STORE);
+      ids.forEach((id) => store.delete(id));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (err) {
+    console.error("Failed to delete media:", err);
+  }
+}
+
+/**
+ * Delete all stored media
+ */
+export async function clearMedia(): Promise<void> {
+  if (!("indexedDB" in window)) return;
+
+  try {
+    const db = await openHistoryDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(MEDIA_STORE, "readwrite");
+      const request = transaction.objectStore(MEDIA_STORE).clear();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  } catch (err) {
+    console.error("Failed to clear media:", err);
+  }
+}
+
+/**
+ * Report how much space stored media takes, plus the origin's quota if available
+ */
+export async function getMediaUsage(): Promise<MediaUsage> {
+  let count = 0;
+  let bytes = 0;
+  if ("indexedDB" in window) {
+    try {
+      const entries = await listMedia();
+      count = entries.length;
+      bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    } catch (err) {
+      console.error("Failed to read media usage:", err);
+    }
+  }
+
+  let originUsage: number | null = null;
+  let originQuota: number | null = null;
+  if (navigator.storage?.estimate) {
+    try {
+      const estimate = await navigator.storage.estimate();
+      originUsage = estimate.usage ?? null;
+      originQuota = estimate.quota ?? null;
+    } catch {
+      // Estimate is best-effort only
+    }
+  }
+
+  return { count, bytes, originUsage, originQuota };
+}
+
+/**
+ * Evict media stored before the cutoff timestamp. Thumbnails in history are kept.
+ * Returns the number of blobs removed.
+ */
+export async function evictMediaOlderThan(cutoff: number): Promise<number> {
+  if (!("indexedDB" in window)) return 0;
+
+  try {
+    const entries = await listMedia();
+    const stale = entries.filter((entry) => entry.storedAt < cutoff).map((entry) => entry.id);
+    await deleteMedia(stale);
+    return stale.length;
+  } catch (err) {
+    console.error("Failed to evict media:", err);
+    return 0;
+  }
+}
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+/**
+ * File extension for a stored blob, falling back to the usual format for the item type
+ */
+export function getMediaExtension(mimeType: string, type: "image" | "video"): string {
+  return MEDIA_EXTENSIONS[mimeType] ?? (type === "video" ? "mp4" : "png");
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
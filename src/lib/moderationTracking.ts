@@ -3,7 +3,9 @@
  * Helps users understand what gets moderated and reduce wasted credits.
  */
 
-import { calculateImageEditCost, calculateVideoCost } from "./pricing";
+import type { XaiUsage } from './grokApi';
+import type { GrokErrorKind } from './grokErrors';
+import { calculateImageCost, calculateImageEditCost, calculateVideoModeCost, getPricingTable, type PricingTable } from "./pricing";
 
 export interface ModerationEvent {
   id: string;
@@ -12,8 +14,14 @@ export interface ModerationEvent {
   prompt: string;
   inputImageHash: string; // Simple hash of input image for similarity detection
   moderated: boolean;
-  cost: number;
+  cancelled?: boolean; // Stopped by the user before a result came back
+  requestId?: string; // xAI request_id of a video job that was cancelled after xAI accepted it, so it is still billed
+  imported?: boolean; // Merged from another browser's archive, so not part of this browser's spend
+  cost: number; // Client-side estimate from the pricing table
+  actualCost?: number; // Cost xAI reported for the generation, when its responses carried one
+  usage?: XaiUsage; // Raw billing data from the xAI responses
   errorMessage?: string;
+  errorKind?: GrokErrorKind; // Why the generation failed, from the typed xAI error
   model?: string;
   metadata?: Record<string, unknown>;
 }
@@ -21,6 +29,7 @@ export interface ModerationEvent {
 export interface ModerationStats {
   totalAttempts: number;
   totalModerated: number;
+  totalCancelled: number;
   totalCost: number;
   totalWasted: number;
   moderationRate: number;
@@ -30,11 +39,21 @@ export interface ModerationStats {
   videoModerated: number;
   imageModerationRate: number;
   videoModerationRate: number;
+  imageCost: number;
+  imageWasted: number;
+  videoCost: number;
+  videoWasted: number;
 }
 
 const STORAGE_KEY = 'grok_moderation_history';
+// Schema version of the stored events, for migrateModerationHistory
+const VERSION_KEY = 'grok_moderation_history_version';
+const CURRENT_VERSION = 1;
 const MAX_EVENTS = 500; // Keep last 500 events
 
+// Failures xAI rejects before any generation runs (including a create call still rate limited after retries), so nothing is billed
+const UNBILLED_ERROR_KINDS: ReadonlySet<GrokErrorKind> = new Set(['auth', 'rate-limit', 'insufficient-credits']);
+
 /**
  * Simple hash function for image data URLs to detect similar images
  */
@@ -48,39 +67,31 @@ function hashString(str: string): string {
   return hash.toString(36);
 }
 
-/**
- * Detect if an error is due to content moderation
- */
-export function isModerationError(errorMessage: string): boolean {
-  const moderationKeywords = [
-    'moderation',
-    'content policy',
-    'policy violation',
-    'inappropriate',
-    'violates',
-    'not allowed',
-    'rejected',
-    'flagged',
-    'unsafe content',
-  ];
-  
-  const lowerMessage = errorMessage.toLowerCase();
-  return moderationKeywords.some(keyword => lowerMessage.includes(keyword));
-}
-
 function getGenerationCost(event: {
   type: 'image' | 'video';
   model?: string;
   metadata?: Record<string, unknown>;
-}): number {
+}, table: PricingTable): number {
   if (event.type === 'image') {
     const count = typeof event.metadata?.count === 'number' ? event.metadata.count : 1;
-    return calculateImageEditCost(event.model === 'grok-imagine-image-pro' ? 'grok-imagine-image-pro' : 'grok-imagine-image', count);
+    const model = event.model === 'grok-imagine-image-pro' ? 'grok-imagine-image-pro' : 'grok-imagine-image';
+    // Text-to-image has no input image to bill
+    return event.metadata?.mode === 'text' ? calculateImageCost(model, count, table) : calculateImageEditCost(model, count, 1, table);
   }
 
-  const duration = typeof event.metadata?.duration === 'number' ? event.metadata.duration : 3;
-  const resolution = event.metadata?.resolution === '720p' ? '720p' : '480p';
-  return calculateVideoCost(duration, resolution);
+  const metadata = event.metadata ?? {};
+  const mode = metadata.mode === 'text' || metadata.mode === 'edit' || metadata.mode === 'extend' ? metadata.mode : 'generate';
+  const toResolution = (value: unknown) => (value === '720p' || value === '480p' ? value : null);
+  return calculateVideoModeCost(
+    {
+      mode,
+      duration: typeof metadata.duration === 'number' ? metadata.duration : 3,
+      resolution: toResolution(metadata.resolution) ?? '480p',
+      sourceDuration: typeof metadata.sourceDuration === 'number' ? metadata.sourceDuration : null,
+      sourceResolution: toResolution(metadata.sourceResolution),
+    },
+    table
+  );
 }
 
 /**
@@ -90,11 +101,51 @@ function getModeratedCost(event: {
   type: 'image' | 'video';
   model?: string;
   metadata?: Record<string, unknown>;
-}): number {
-  const generationCost = getGenerationCost(event);
-  const moderationFee = 0.05;
+}, table: PricingTable): number {
+  const generationCost = getGenerationCost(event, table);
   const count = event.type === 'image' && typeof event.metadata?.count === 'number' ? event.metadata.count : 1;
-  return generationCost + (moderationFee * count);
+  return generationCost + (table.moderationFee * count);
+}
+
+/**
+ * What an event cost under the pricing table in effect at its timestamp
+ */
+function getEventCost(
+  event: Pick<ModerationEvent, 'type' | 'model' | 'metadata' | 'moderated' | 'cancelled' | 'requestId' | 'errorKind' | 'timestamp'>
+): number {
+  // Runs cancelled before xAI accepted them and requests xAI refused up front are not counted as spend.
+  // A video job xAI had already accepted is billed even when cancelled.
+  if ((event.cancelled && !event.requestId) || (event.errorKind && UNBILLED_ERROR_KINDS.has(event.errorKind))) return 0;
+  const table = getPricingTable(event.timestamp);
+  // If moderated, include both generation cost + moderation fee.
+  return event.moderated ? getModeratedCost(event, table) : getGenerationCost(event, table);
+}
+
+/**
+ * Events recorded before unbilled failures were priced at 0 still carry a cost
+ */
+function withUnbilledCost(event: ModerationEvent): ModerationEvent {
+  return event.cost !== 0 && event.errorKind && UNBILLED_ERROR_KINDS.has(event.errorKind) ? { ...event, cost: 0 } : event;
+}
+
+/**
+ * Bring stored events up to the current schema. Runs once per browser, at startup.
+ *
+ * Versions:
+ *  1 - rate-limited, unauthorized and out-of-credit failures cost 0
+ */
+export function migrateModerationHistory(): void {
+  try {
+    const version = Number(localStorage.getItem(VERSION_KEY)) || 0;
+    if (version >= CURRENT_VERSION) return;
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (data) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify((JSON.parse(data) as ModerationEvent[]).map(withUnbilledCost)));
+    }
+    localStorage.setItem(VERSION_KEY, String(CURRENT_VERSION));
+  } catch (err) {
+    console.error('Failed to migrate moderation history:', err);
+  }
 }
 
 /**
@@ -105,26 +156,33 @@ export function trackModerationEvent(event: {
   prompt: string;
   inputImage: string;
   moderated: boolean;
+  cancelled?: boolean;
+  requestId?: string;
   errorMessage?: string;
+  errorKind?: GrokErrorKind;
   model?: string;
+  usage?: XaiUsage;
   metadata?: Record<string, unknown>;
 }): void {
   try {
     const events = getModerationHistory();
     const outputCount = typeof event.metadata?.count === 'number' ? event.metadata.count : 1;
 
+    const timestamp = Date.now();
     const newEvent: ModerationEvent = {
-      id: `mod_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-      timestamp: Date.now(),
+      id: `mod_${timestamp}_${Math.random().toString(36).substring(2, 11)}`,
+      timestamp,
       type: event.type,
       prompt: event.prompt,
       inputImageHash: hashString(event.inputImage),
       moderated: event.moderated,
-      // If moderated, include both generation cost + $0.05 moderation fee
-      cost: event.moderated
-        ? getModeratedCost({ type: event.type, model: event.model, metadata: event.metadata })
-        : getGenerationCost({ type: event.type, model: event.model, metadata: event.metadata }),
+      ...(event.cancelled ? { cancelled: true } : {}),
+      ...(event.cancelled && event.requestId ? { requestId: event.requestId } : {}),
+      cost: getEventCost({ ...event, timestamp }),
+      ...(event.usage?.costUsd !== undefined ? { actualCost: event.usage.costUsd } : {}),
+      ...(event.usage ? { usage: event.usage } : {}),
       errorMessage: event.errorMessage,
+      ...(event.errorKind ? { errorKind: event.errorKind } : {}),
       model: event.model,
       metadata: { ...event.metadata, count: outputCount },
     };
@@ -156,11 +214,68 @@ export function getModerationHistory(): ModerationEvent[] {
   }
 }
 
+/**
+ * Merge events from another browser (archive import), skipping ids we already have.
+ * Returns the number of events added.
+ */
+export function mergeModerationEvents(incoming: ModerationEvent[]): number {
+  try {
+    const events = getModerationHistory();
+    const known = new Set(events.map(e => e.id));
+    const added = incoming
+      .filter(e => {
+        if (!e || typeof e.id !== 'string' || typeof e.timestamp !== 'number' || known.has(e.id)) return false;
+        known.add(e.id);
+        return true;
+      })
+      // Archives from older versions may predate the migrations
+      .map(e => ({ ...withUnbilledCost(e), imported: true }));
+    if (added.length === 0) return 0;
+
+    const merged = [...events, ...added].sort((a, b) => b.timestamp - a.timestamp);
+    if (merged.length > MAX_EVENTS) {
+      merged.splice(MAX_EVENTS);
+    }
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(merged));
+    return added.length;
+  } catch (err) {
+    console.error('Failed to merge moderation history:', err);
+    return 0;
+  }
+}
+
+/**
+ * Re-price every stored event with the pricing table in effect at its timestamp,
+ * e.g. after a price change was entered late. Returns the number of events whose cost changed.
+ */
+export function recomputeModerationCosts(): number {
+  try {
+    const events = getModerationHistory();
+    let changed = 0;
+    const repriced = events.map(e => {
+      const cost = getEventCost(e);
+      if (Math.abs(cost - e.cost) < 1e-9) return e;
+      changed++;
+      return { ...e, cost };
+    });
+    if (changed > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(repriced));
+    }
+    return changed;
+  } catch (err) {
+    console.error('Failed to recompute moderation costs:', err);
+    return 0;
+  }
+}
+
 /**
  * Calculate moderation statistics
  */
 export function getModerationStats(): ModerationStats {
-  const events = getModerationHistory();
+  const allEvents = getModerationHistory();
+  // Cancelled runs are neither successes nor failures, so keep them out of the rates
+  const events = allEvents.filter(e => !e.cancelled);
   
   const imageEvents = events.filter(e => e.type === 'image');
   const videoEvents = events.filter(e => e.type === 'video');
@@ -169,12 +284,14 @@ export function getModerationStats(): ModerationStats {
   const imageModerated = imageEvents.filter(e => e.moderated).length;
   const videoModerated = videoEvents.filter(e => e.moderated).length;
   
-  const totalCost = events.reduce((sum, e) => sum + e.cost, 0);
-  const totalWasted = events.filter(e => e.moderated).reduce((sum, e) => sum + e.cost, 0);
+  const sumCost = (list: ModerationEvent[]) => list.reduce((sum, e) => sum + e.cost, 0);
+  const totalCost = sumCost(events);
+  const totalWasted = sumCost(events.filter(e => e.moderated));
   
   return {
     totalAttempts: events.length,
     totalModerated,
+    totalCancelled: allEvents.length - events.length,
     totalCost,
     totalWasted,
     moderationRate: events.length > 0 ? totalModerated / events.length : 0,
@@ -184,6 +301,10 @@ export function getModerationStats(): ModerationStats {
     videoModerated,
     imageModerationRate: imageEvents.length > 0 ? imageModerated / imageEvents.length : 0,
     videoModerationRate: videoEvents.length > 0 ? videoModerated / videoEvents.length : 0,
+    imageCost: sumCost(imageEvents),
+    imageWasted: sumCost(imageEvents.filter(e => e.moderated)),
+    videoCost: sumCost(videoEvents),
+    videoWasted: sumCost(videoEvents.filter(e => e.moderated)),
   };
 }
 
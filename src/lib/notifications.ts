@@ -0,0 +1,201 @@
+/**
+ * Tell the user about jobs that finish while they are in another tab: browser notifications (Notifications API),
+ * a completion sound, and a running-job count in the tab title and favicon. Everything is opt-in except the
+ * title and favicon badge, and configured in Settings.
+ */
+
+export type JobOutcome = "done" | "failed" | "moderated";
+
+export interface NotificationSettings {
+  /** Show a browser notification when a job finishes while the tab is in the background. */
+  enabled: boolean;
+  /** Which outcomes get a notification. */
+  outcomes: Record<JobOutcome, boolean>;
+  /** Play a short chime when a job completes. */
+  sound: boolean;
+  /** Put the number of running jobs in the tab title. */
+  tabTitle: boolean;
+  /** Draw the number of running jobs on the favicon. */
+  faviconBadge: boolean;
+}
+
+export interface FinishedJob {
+  kind: "image" | "video";
+  outcome: JobOutcome;
+  prompt: string;
+  /** Error message for failed and moderated jobs. */
+  error?: string | null;
+}
+
+const STORAGE_KEY = "grok_notification_settings";
+/** Fired on window when the settings change, so open tabs pick them up without a reload. */
+export const NOTIFICATION_SETTINGS_EVENT = "grok-notification-settings";
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  outcomes: { done: true, failed: true, moderated: true },
+  sound: false,
+  tabTitle: true,
+  faviconBadge: true,
+};
+
+export const JOB_OUTCOME_LABELS: Record<JobOutcome, string> = {
+  done: "Completed",
+  failed: "Failed",
+  moderated: "Moderated",
+};
+
+const NOTIFICATION_TITLES: Record<FinishedJob["kind"], Record<JobOutcome, string>> = {
+  image: { done: "✅ Image ready", failed: "❌ Image failed", moderated: "⚠️ Image moderated" },
+  video: { done: "✅ Video ready", failed: "❌ Video failed", moderated: "⚠️ Video moderated" },
+};
+
+// Longest prompt excerpt shown in a notification body
+const NOTIFICATION_PROMPT_LENGTH = 120;
+
+export function getNotificationSettings(): NotificationSettings {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return DEFAULT_NOTIFICATION_SETTINGS;
+    const parsed = JSON.parse(data) as Partial<NotificationSettings>;
+    return {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      ...parsed,
+      outcomes: { ...DEFAULT_NOTIFICATION_SETTINGS.outcomes, ...parsed.outcomes },
+    };
+  } catch (err) {
+    console.error("Failed to load notification settings:", err);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event(NOTIFICATION_SETTINGS_EVENT));
+}
+
+export function isNotificationSupported(): boolean {
+  return "Notification" in window;
+}
+
+/**
+ * Ask for permission to show notifications. Resolves to the resulting permission ("denied" when unsupported).
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isNotificationSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+/**
+ * Notify about a finished job, as the settings allow. Notifications are only shown while the tab is hidden,
+ * since the job card already says the same thing when the page is in view.
+ */
+export function notifyJobFinished(job: FinishedJob, settings: NotificationSettings = getNotificationSettings()): void {
+  if (settings.sound && job.outcome === "done") void playCompletionSound();
+
+  if (!settings.enabled || !settings.outcomes[job.outcome] || !document.hidden) return;
+  if (!isNotificationSupported() || Notification.permission !== "granted") return;
+
+  const prompt = job.prompt.length > NOTIFICATION_PROMPT_LENGTH ? `${job.prompt.slice(0, NOTIFICATION_PROMPT_LENGTH)}…` : job.prompt;
+  try {
+    const notification = new Notification(NOTIFICATION_TITLES[job.kind][job.outcome], {
+      body: job.outcome === "done" || !job.error ? prompt : `${job.error}\n${prompt}`,
+      tag: `grok-job-${job.kind}`,
+    });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (err) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error("Failed to show notification:", err);
+  }
+}
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Create or resume the audio context. Browsers only let audio start from a user gesture, so call this from one
+ * (enabling the sound, the first click on the page) to let the chime play later when a job finishes.
+ */
+export function unlockCompletionSound(): Promise<AudioContext | null> {
+  try {
+    audioContext ??= new AudioContext();
+    const context = audioContext;
+    if (context.state !== "suspended") return Promise.resolve(context);
+    return context.resume().then(
+      () => context,
+      (err: unknown) => {
+        console.error("Failed to start audio:", err);
+        return null;
+      }
+    );
+  } catch (err) {
+    console.error("Failed to start audio:", err);
+    return Promise.resolve(null);
+  }
+}
+
+/**
+ * Two short rising tones, synthesised so no audio file has to ship with the app
+ */
+export async function playCompletionSound(): Promise<void> {
+  try {
+    const context = await unlockCompletionSound();
+    if (!context) return;
+    const start = context.currentTime;
+    [660, 880].forEach((frequency, i) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const at = start + i * 0.15;
+      oscillator.type = "sine";
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, at);
+      gain.gain.exponentialRampToValueAtTime(0.001, at + 0.3);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(at);
+      oscillator.stop(at + 0.3);
+    });
+  } catch (err) {
+    console.error("Failed to play completion sound:", err);
+  }
+}
+
+// The running-job count we prefix to the title; the rest of the title belongs to the page (see usePageTitle in App)
+const TITLE_COUNT = /^\(\d+\) /;
+let baseFavicon: string | null = null;
+
+function getFaviconLink(): HTMLLinkElement {
+  let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+  if (!link) {
+    link = document.createElement("link");
+    link.rel = "icon";
+    document.head.appendChild(link);
+  }
+  return link;
+}
+
+function badgeFavicon(count: number): string {
+  const label = count > 9 ? "9+" : String(count);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32">` +
+    `<circle cx="16" cy="16" r="15" fill="#646cff"/>` +
+    `<text x="16" y="22" text-anchor="middle" font-family="sans-serif" font-weight="bold" font-size="${label.length > 1 ? 14 : 18}" fill="#fff">${label}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Show the number of running jobs in the tab title and favicon, or restore both when nothing is running
+ */
+export function updateTabIndicators(running: number, settings: NotificationSettings = getNotificationSettings()): void {
+  const pageTitle = document.title.replace(TITLE_COUNT, "");
+  const title = settings.tabTitle && running > 0 ? `(${running}) ${pageTitle}` : pageTitle;
+  if (document.title !== title) document.title = title;
+
+  const link = getFaviconLink();
+  baseFavicon ??= link.href;
+  const favicon = settings.faviconBadge && running > 0 ? badgeFavicon(running) : baseFavicon;
+  if (link.href !== favicon) link.href = favicon;
+}
@@ -2,33 +2,35 @@
  * Preflight check system - test prompts with cheap 1s 480p video before expensive generation
  */
 
-import { imageToVideo } from "./grokApi";
+import { imageToVideo, textToVideo } from "./grokApi";
+import { getGrokErrorKind, ModerationError, type GrokErrorKind } from "./grokErrors";
 import { calculateVideoCost, calculatePreflightCost } from "./pricing";
 
 export interface PreflightResult {
   success: boolean;
   passed: boolean; // true if not moderated
   error?: string;
+  errorKind?: GrokErrorKind;
   testVideoUrl?: string;
   cost: number;
 }
 
 /**
  * Run a preflight check: generate a 1-second 480p video to test for moderation
- * This costs ~$0.052 (image input + 1s @ 480p) but can save you from wasting money on a full video that gets moderated
+ * This costs ~$0.052 (image input + 1s @ 480p) but can save you from wasting money on a full video that gets moderated.
+ * Pass a null image to preflight a text-to-video prompt (~$0.05, no image input).
  */
 export async function runPreflightCheck(
   prompt: string,
-  imageDataUri: string
+  imageDataUri: string | null
 ): Promise<PreflightResult> {
-  const preflightCost = calculatePreflightCost();
+  const preflightCost = calculatePreflightCost(imageDataUri ? "generate" : "text");
 
   try {
     // Generate minimal video: 1 second, 480p (lowest supported resolution)
-    const result = await imageToVideo(prompt, imageDataUri, {
-      duration: 1,
-      resolution: "480p",
-    });
+    const result = imageDataUri
+      ? await imageToVideo(prompt, imageDataUri, { duration: 1, resolution: "480p" })
+      : await textToVideo(prompt, { duration: 1, resolution: "480p" });
 
     // If we got here, moderation passed!
     return {
@@ -40,37 +42,23 @@ export async function runPreflightCheck(
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : String(err);
 
-    // Check if error is moderation-related
-    const moderationKeywords = [
-      "moderation",
-      "content policy",
-      "policy violation",
-      "inappropriate",
-      "violates",
-      "rejected",
-      "flagged",
-      "unsafe content",
-    ];
-
-    const isModeration = moderationKeywords.some((keyword) =>
-      errorMessage.toLowerCase().includes(keyword)
-    );
-
-    if (isModeration) {
+    if (err instanceof ModerationError) {
       // Moderation failed - this is actually a "successful" preflight (caught the issue!)
       return {
         success: true,
         passed: false,
         error: errorMessage,
+        errorKind: err.kind,
         cost: preflightCost,
       };
     }
 
-    // Some other error (network, API, etc.)
+    // Some other error (network, rate limit, credits, etc.)
     return {
       success: false,
       passed: false,
       error: errorMessage,
+      errorKind: getGrokErrorKind(err) ?? undefined,
       cost: 0, // May not have been charged if request failed early
     };
   }
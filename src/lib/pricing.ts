@@ -3,40 +3,178 @@
  * Source: https://x.ai/api/pricing
  */
 
-// Pricing constants (in USD)
-export const PRICING = {
+export type ImageModel = "grok-imagine-image" | "grok-imagine-image-pro";
+export type VideoResolution = "480p" | "720p";
+export type VideoCostMode = "generate" | "text" | "edit" | "extend";
+
+/**
+ * What a video generation is billed on. Edits keep the source's length and resolution;
+ * extensions are billed for the added seconds at the source's resolution.
+ */
+export interface VideoCostInput {
+  mode: VideoCostMode;
+  /** Output length for generate and text, seconds added for extend. Edits ignore it when the source length is known. */
+  duration: number;
+  resolution: VideoResolution;
+  /** Length of the source video (edit and extend), when it could be read. */
+  sourceDuration?: number | null;
+  /** Resolution of the source video (edit and extend), when it could be read. */
+  sourceResolution?: VideoResolution | null;
+}
+
+/**
+ * Prices (in USD) in effect from a given day until the next table's effective date.
+ * Prices change over time, so every cost is worked out with the table in effect when the
+ * generation ran (see getPricingTable).
+ */
+export interface PricingTable {
+  id: string;
+  /** Local calendar day (YYYY-MM-DD) from which these prices apply. */
+  effectiveFrom: string;
+  label?: string;
+  // xAI image generation is billed as a flat per-image fee.
+  image: Record<ImageModel, number>;
+  video: {
+    // Input image cost for video generation
+    imageInput: number;
+    // Price per second based on resolution
+    perSecond: Record<VideoResolution, number>;
+  };
+  // Moderation fee - charged when content is moderated (in addition to generation cost)
+  moderationFee: number;
+}
+
+/** Built-in prices, used before any edited table takes effect. */
+export const DEFAULT_PRICING: PricingTable = {
+  id: "default",
+  effectiveFrom: "2025-01-01",
+  label: "Built-in",
   image: {
-    // xAI image generation is billed as a flat per-image fee.
-    "grok-imagine-image": {
-      perImage: 0.07,
-    },
+    "grok-imagine-image": 0.07,
     // Keep the Pro variant aligned with the current flat pricing model.
     "grok-imagine-image-pro": 0.07,
   },
   video: {
-    // Input image cost for video generation
     imageInput: 0.002,
-    // Price per second based on resolution
     perSecond: {
-      "480p": 0.05,  // $0.05 per second at 480p
-      "720p": 0.07,  // $0.07 per second at 720p
+      "480p": 0.05,
+      "720p": 0.07,
     },
   },
-  // Moderation fee - charged when content is moderated (in addition to generation cost)
   moderationFee: 0.05,
-} as const;
+};
+
+const STORAGE_KEY = "grok_pricing_tables";
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isPrice(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check a pricing table from storage or a loaded file. Throws with the first problem found.
+ */
+export function validatePricingTable(value: unknown): PricingTable {
+  const table = value as PricingTable;
+  if (!table || typeof table !== "object") throw new Error("Pricing table must be an object");
+  if (typeof table.effectiveFrom !== "string" || !DATE_PATTERN.test(table.effectiveFrom)) {
+    throw new Error("effectiveFrom must be a date like 2025-06-01");
+  }
+  const where = `Pricing table from ${table.effectiveFrom}`;
+  if (!table.image || !isPrice(table.image["grok-imagine-image"]) || !isPrice(table.image["grok-imagine-image-pro"])) {
+    throw new Error(`${where}: image prices for grok-imagine-image and grok-imagine-image-pro are required`);
+  }
+  if (!table.video || !isPrice(table.video.imageInput) || !table.video.perSecond || !isPrice(table.video.perSecond["480p"]) || !isPrice(table.video.perSecond["720p"])) {
+    throw new Error(`${where}: video.imageInput and video.perSecond for 480p and 720p are required`);
+  }
+  if (!isPrice(table.moderationFee)) throw new Error(`${where}: moderationFee is required`);
+
+  return {
+    id: typeof table.id === "string" && table.id ? table.id : crypto.randomUUID(),
+    effectiveFrom: table.effectiveFrom,
+    ...(typeof table.label === "string" && table.label ? { label: table.label } : {}),
+    image: { "grok-imagine-image": table.image["grok-imagine-image"], "grok-imagine-image-pro": table.image["grok-imagine-image-pro"] },
+    video: {
+      imageInput: table.video.imageInput,
+      perSecond: { "480p": table.video.perSecond["480p"], "720p": table.video.perSecond["720p"] },
+    },
+    moderationFee: table.moderationFee,
+  };
+}
+
+/**
+ * Parse a JSON file holding one pricing table or an array of them
+ */
+export function parsePricingTables(text: string): PricingTable[] {
+  const parsed: unknown = JSON.parse(text);
+  const tables = (Array.isArray(parsed) ? parsed : [parsed]).map(validatePricingTable);
+  if (tables.length === 0) throw new Error("The file has no pricing tables");
+  return tables;
+}
+
+/**
+ * Tables added in settings or loaded from a file, oldest first. The built-in table is not included.
+ */
+export function getCustomPricingTables(): PricingTable[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return [];
+    const parsed: unknown = JSON.parse(data);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .flatMap((table) => {
+        try {
+          return [validatePricingTable(table)];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  } catch (err) {
+    console.error("Failed to load pricing tables:", err);
+    return [];
+  }
+}
+
+export function saveCustomPricingTables(tables: PricingTable[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+}
+
+/**
+ * Every table, oldest first
+ */
+export function getPricingTables(): PricingTable[] {
+  return [DEFAULT_PRICING, ...getCustomPricingTables()].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+/**
+ * Local calendar day of a timestamp as YYYY-MM-DD
+ */
+export function toPricingDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * The table in effect at a time: the latest one whose effective date is on or before that day.
+ * Times before every table use the earliest one.
+ */
+export function getPricingTable(at: number = Date.now()): PricingTable {
+  const day = toPricingDate(at);
+  const tables = getPricingTables();
+  return tables.reduce((current, table) => (table.effectiveFrom <= day ? table : current), tables[0]);
+}
 
 /**
- * Calculate the cost of generating images
- * xAI currently bills image generation as a flat per-image fee.
+ * Calculate the cost of generating images from a text prompt
+ * xAI currently bills image generation as a flat per-image fee, with no input image charge.
  */
 export function calculateImageCost(
-  model: "grok-imagine-image" | "grok-imagine-image-pro",
-  count: number
+  model: ImageModel,
+  count: number,
+  table: PricingTable = getPricingTable()
 ): number {
-  const perImage =
-    model === "grok-imagine-image" ? PRICING.image[model].perImage : PRICING.image[model];
-  return perImage * count;
+  return table.image[model] * count;
 }
 
 /**
@@ -44,13 +182,12 @@ export function calculateImageCost(
  * The docs state that image editing is billed for both the input image and the output image.
  */
 export function calculateImageEditCost(
-  model: "grok-imagine-image" | "grok-imagine-image-pro",
+  model: ImageModel,
   outputCount: number,
-  inputCount: number = 1
+  inputCount: number = 1,
+  table: PricingTable = getPricingTable()
 ): number {
-  const perImage =
-    model === "grok-imagine-image" ? PRICING.image[model].perImage : PRICING.image[model];
-  return perImage * (inputCount + outputCount);
+  return table.image[model] * (inputCount + outputCount);
 }
 
 /**
@@ -59,18 +196,91 @@ export function calculateImageEditCost(
  */
 export function calculateVideoCost(
   duration: number,
-  resolution: "480p" | "720p"
+  resolution: VideoResolution,
+  table: PricingTable = getPricingTable()
 ): number {
-  const imageInputCost = PRICING.video.imageInput;
-  const videoCost = PRICING.video.perSecond[resolution] * duration;
+  const imageInputCost = table.video.imageInput;
+  const videoCost = table.video.perSecond[resolution] * duration;
   return imageInputCost + videoCost;
 }
 
+/**
+ * Calculate the cost of generating a video from a text prompt only
+ * Formula: duration × per-second rate based on resolution (no image input)
+ */
+export function calculateTextToVideoCost(
+  duration: number,
+  resolution: VideoResolution,
+  table: PricingTable = getPricingTable()
+): number {
+  return table.video.perSecond[resolution] * duration;
+}
+
+/**
+ * Calculate the cost of editing a video
+ * xAI keeps the source's duration and resolution (capped at 720p), so the output is billed per second of the source.
+ */
+export function calculateVideoEditCost(
+  sourceDuration: number,
+  sourceResolution: VideoResolution,
+  table: PricingTable = getPricingTable()
+): number {
+  return table.video.perSecond[sourceResolution] * sourceDuration;
+}
+
+/**
+ * Calculate the cost of extending a video
+ * Only the added seconds are billed, at the source video's resolution.
+ */
+export function calculateVideoExtendCost(
+  addedSeconds: number,
+  sourceResolution: VideoResolution,
+  table: PricingTable = getPricingTable()
+): number {
+  return table.video.perSecond[sourceResolution] * addedSeconds;
+}
+
+/**
+ * Seconds and resolution a video generation is billed for. Without a known source, edits and
+ * extensions fall back to the requested duration and resolution.
+ */
+export function getBilledVideo(input: VideoCostInput): { duration: number; resolution: VideoResolution } {
+  if (input.mode === "generate" || input.mode === "text") return { duration: input.duration, resolution: input.resolution };
+  return {
+    duration: input.mode === "edit" ? input.sourceDuration ?? input.duration : input.duration,
+    resolution: input.sourceResolution ?? input.resolution,
+  };
+}
+
+/**
+ * Calculate the cost of a video generation in any mode
+ */
+export function calculateVideoModeCost(input: VideoCostInput, table: PricingTable = getPricingTable()): number {
+  const { duration, resolution } = getBilledVideo(input);
+  switch (input.mode) {
+    case "generate":
+      return calculateVideoCost(duration, resolution, table);
+    case "text":
+      return calculateTextToVideoCost(duration, resolution, table);
+    case "edit":
+      return calculateVideoEditCost(duration, resolution, table);
+    case "extend":
+      return calculateVideoExtendCost(duration, resolution, table);
+  }
+}
+
+/**
+ * The billing tier for a video's frame size: xAI caps output at 720p, and anything smaller bills as 480p
+ */
+export function toVideoResolution(width: number, height: number): VideoResolution {
+  return Math.min(width, height) >= 720 ? "720p" : "480p";
+}
+
 /**
  * Calculate the cost of a preflight check (1 second 480p video)
  */
-export function calculatePreflightCost(): number {
-  return calculateVideoCost(1, "480p");
+export function calculatePreflightCost(mode: "generate" | "text" = "generate"): number {
+  return mode === "text" ? calculateTextToVideoCost(1, "480p") : calculateVideoCost(1, "480p");
 }
 
 /**
@@ -78,11 +288,12 @@ export function calculatePreflightCost(): number {
  * Moderated content incurs both the generation cost AND a $0.05 moderation fee
  */
 export function calculateModeratedImageCost(
-  model: "grok-imagine-image" | "grok-imagine-image-pro",
-  count: number
+  model: ImageModel,
+  count: number,
+  table: PricingTable = getPricingTable()
 ): number {
-  const generationCost = calculateImageEditCost(model, count);
-  return generationCost + (PRICING.moderationFee * count);
+  const generationCost = calculateImageEditCost(model, count, 1, table);
+  return generationCost + (table.moderationFee * count);
 }
 
 /**
@@ -91,15 +302,16 @@ export function calculateModeratedImageCost(
  */
 export function calculateModeratedVideoCost(
   duration: number,
-  resolution: "480p" | "720p"
+  resolution: VideoResolution,
+  table: PricingTable = getPricingTable()
 ): number {
-  const generationCost = calculateVideoCost(duration, resolution);
-  return generationCost + PRICING.moderationFee;
+  const generationCost = calculateVideoCost(duration, resolution, table);
+  return generationCost + table.moderationFee;
 }
 
 /**
  * Calculate the moderation fee for a given type and count
  */
-export function calculateModerationFee(_type: 'image' | 'video', count: number = 1): number {
-  return PRICING.moderationFee * count;
+export function calculateModerationFee(_type: 'image' | 'video', count: number = 1, table: PricingTable = getPricingTable()): number {
+  return table.moderationFee * count;
 }
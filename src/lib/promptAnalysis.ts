@@ -4,7 +4,7 @@
  */
 
 import { getModerationHistory, type ModerationEvent } from "./moderationTracking";
-import { PRICING } from "./pricing";
+import { getPricingTable } from "./pricing";
 
 export interface SimilarPrompt {
   event: ModerationEvent;
@@ -51,7 +51,7 @@ function findSimilarPrompts(
   minSimilarity = 0.2
 ): { moderated: SimilarPrompt[]; successful: SimilarPrompt[] } {
   const history = getModerationHistory();
-  const typeHistory = history.filter(e => e.type === type);
+  const typeHistory = history.filter(e => e.type === type && !e.cancelled);
   
   const similar: SimilarPrompt[] = [];
   
@@ -76,7 +76,7 @@ function findSimilarPrompts(
  */
 function findRiskyWords(prompt: string, type: 'image' | 'video'): string[] {
   const history = getModerationHistory();
-  const typeHistory = history.filter(e => e.type === type);
+  const typeHistory = history.filter(e => e.type === type && !e.cancelled);
   
   const moderatedPrompts = typeHistory.filter(e => e.moderated);
   const successfulPrompts = typeHistory.filter(e => !e.moderated);
@@ -185,7 +185,7 @@ export function assessModerationRisk(
 
   // Estimated waste includes both generation cost AND moderation fee ($0.05)
   // if content gets moderated
-  const estimatedWaste = riskScore * (cost + PRICING.moderationFee);
+  const estimatedWaste = riskScore * (cost + getPricingTable().moderationFee);
 
   return {
     riskScore,
@@ -0,0 +1,255 @@
+/**
+ * Request inspector: a ring buffer of the most recent xAI requests and responses (everything grokFetch sends,
+ * including video job creation, polling and proxied downloads), for the developer drawer and bug reports.
+ * Secrets in headers are masked before anything is stored, and bodies are cut to BODY_LIMIT characters.
+ */
+
+export interface RequestLogEntry {
+  id: number;
+  startedAt: number;
+  method: string;
+  /** URL as requested; relative URLs go to this app's /v1 and /api proxies. */
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody: string | null;
+  requestBodyTruncated: boolean;
+  /** Null while the request is in flight, 0 when it never got a response. */
+  status: number | null;
+  statusText: string;
+  responseHeaders: Record<string, string>;
+  /** Text bodies only (by content-type); binary downloads are summarised by responseSize. */
+  responseBody: string | null;
+  responseBodyTruncated: boolean;
+  /** Body size in bytes, from the content-length header or the text read. */
+  responseSize: number | null;
+  /** Time until the response headers arrived, in ms. */
+  waitMs: number | null;
+  /** Time until the whole response was read, or the request failed, in ms. */
+  durationMs: number | null;
+  error: string | null;
+}
+
+const MAX_ENTRIES = 200;
+const BODY_LIMIT = 10_000;
+const SECRET_HEADER = /^(authorization|proxy-authorization|x-api-key|cookie|set-cookie)$/i;
+const TEXT_CONTENT = /json|text|xml|x-www-form-urlencoded/i;
+
+let entries: RequestLogEntry[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+function emit(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function addEntry(entry: RequestLogEntry): void {
+  entries = [...entries, entry].slice(-MAX_ENTRIES);
+  emit();
+}
+
+function updateEntry(id: number, changes: Partial<RequestLogEntry>): void {
+  // The entry may already have been pushed out of the buffer
+  if (!entries.some((entry) => entry.id === id)) return;
+  entries = entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry));
+  emit();
+}
+
+/** Subscribe to changes, for useSyncExternalStore. Returns the unsubscribe function. */
+export function subscribeRequestLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Logged requests, oldest first. The array is replaced on every change. */
+export function getRequestLog(): RequestLogEntry[] {
+  return entries;
+}
+
+export function clearRequestLog(): void {
+  entries = [];
+  emit();
+}
+
+/**
+ * Keep the scheme (e.g. "Bearer") and the last 4 characters of a secret
+ */
+export function maskSecret(value: string): string {
+  const space = value.indexOf(" ");
+  const scheme = value.slice(0, space + 1);
+  const token = value.slice(space + 1);
+  return token.length > 8 ? `${scheme}••••${token.slice(-4)}` : `${scheme}••••`;
+}
+
+function redactHeaders(headers: Headers): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    redacted[name] = SECRET_HEADER.test(name) ? maskSecret(value) : value;
+  });
+  return redacted;
+}
+
+function truncate(text: string): { text: string; truncated: boolean } {
+  return text.length > BODY_LIMIT
+    ? { text: `${text.slice(0, BODY_LIMIT)}… (${text.length - BODY_LIMIT} more characters)`, truncated: true }
+    : { text, truncated: false };
+}
+
+function describeBody(body: BodyInit | null | undefined): string | null {
+  if (body == null) return null;
+  if (typeof body === "string") return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof FormData) return "[form data]";
+  if (body instanceof Blob) return `[binary, ${body.size} bytes]`;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return `[binary, ${body.byteLength} bytes]`;
+  return "[stream]";
+}
+
+/**
+ * fetch that records the request and its response in the request log. The response handed back is untouched;
+ * text bodies are read from a clone.
+ */
+export async function inspectedFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const startedAt = Date.now();
+  const request = input instanceof Request ? input : null;
+  const requestBody = truncate(describeBody(init?.body) ?? (request?.body ? "[stream]" : ""));
+  const id = nextId++;
+  addEntry({
+    id,
+    startedAt,
+    method: (init?.method ?? request?.method ?? "GET").toUpperCase(),
+    url: typeof input === "string" ? input : input instanceof URL ? input.href : input.url,
+    requestHeaders: redactHeaders(new Headers(init?.headers ?? request?.headers)),
+    requestBody: requestBody.text || null,
+    requestBodyTruncated: requestBody.truncated,
+    status: null,
+    statusText: "",
+    responseHeaders: {},
+    responseBody: null,
+    responseBodyTruncated: false,
+    responseSize: null,
+    waitMs: null,
+    durationMs: null,
+    error: null,
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(input, init);
+  } catch (err) {
+    updateEntry(id, {
+      status: 0,
+      durationMs: Date.now() - startedAt,
+      error: err instanceof Error ? `${err.name}: ${err.message}` : String(err),
+    });
+    throw err;
+  }
+
+  const waitMs = Date.now() - startedAt;
+  const contentLength = Number(response.headers.get("content-length"));
+  updateEntry(id, {
+    status: response.status,
+    statusText: response.statusText,
+    responseHeaders: redactHeaders(response.headers),
+    responseSize: Number.isFinite(contentLength) && contentLength > 0 ? contentLength : null,
+    waitMs,
+  });
+
+  // Without a content-type there is no telling the body is text, so it is treated as a binary download
+  if (TEXT_CONTENT.test(response.headers.get("content-type") ?? "")) {
+    response
+      .clone()
+      .text()
+      .then((text) => {
+        const body = truncate(text);
+        updateEntry(id, {
+          responseBody: body.text,
+          responseBodyTruncated: body.truncated,
+          responseSize: new TextEncoder().encode(text).byteLength,
+          durationMs: Date.now() - startedAt,
+        });
+      })
+      .catch((err: unknown) => updateEntry(id, { durationMs: Date.now() - startedAt, error: `Body not read: ${String(err)}` }));
+  } else {
+    // Media downloads are streamed by the caller; reading a copy here would hold the whole file twice
+    updateEntry(id, { durationMs: waitMs });
+  }
+
+  return response;
+}
+
+function absoluteUrl(url: string): string {
+  return new URL(url, window.location.href).href;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The request as a curl command. The API key is replaced with $XAI_API_KEY, so export that before running it.
+ */
+export function toCurl(entry: RequestLogEntry): string {
+  const lines = [`curl -X ${entry.method} ${shellQuote(absoluteUrl(entry.url))}`];
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    lines.push(name.toLowerCase() === "authorization" ? `-H "Authorization: Bearer $XAI_API_KEY"` : `-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  if (entry.requestBody !== null) lines.push(`--data-raw ${shellQuote(entry.requestBody)}`);
+  const command = lines.join(" \\\n  ");
+  return entry.requestBodyTruncated ? `# The request body was truncated in the inspector\n${command}` : command;
+}
+
+function harHeaders(headers: Record<string, string>): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * The entries as a HAR 1.2 file (JSON), for attaching to bug reports. Headers stay masked and bodies truncated.
+ */
+export function requestLogToHar(log: RequestLogEntry[]): string {
+  const har = {
+    log: {
+      version: "1.2",
+      creator: { name: "grok-frontend", version: "1.0" },
+      pages: [],
+      entries: log.map((entry) => {
+        const url = new URL(absoluteUrl(entry.url));
+        const wait = entry.waitMs ?? entry.durationMs ?? 0;
+        return {
+          startedDateTime: new Date(entry.startedAt).toISOString(),
+          time: entry.durationMs ?? wait,
+          request: {
+            method: entry.method,
+            url: url.href,
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: harHeaders(entry.requestHeaders),
+            queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+            ...(entry.requestBody !== null
+              ? { postData: { mimeType: entry.requestHeaders["content-type"] ?? "", text: entry.requestBody } }
+              : {}),
+            headersSize: -1,
+            bodySize: entry.requestBody?.length ?? 0,
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.error ?? entry.statusText,
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: harHeaders(entry.responseHeaders),
+            content: {
+              size: entry.responseSize ?? -1,
+              mimeType: entry.responseHeaders["content-type"] ?? "",
+              ...(entry.responseBody !== null ? { text: entry.responseBody } : {}),
+            },
+            redirectURL: "",
+            headersSize: -1,
+            bodySize: entry.responseSize ?? -1,
+          },
+          cache: {},
+          timings: { send: 0, wait, receive: Math.max(0, (entry.durationMs ?? wait) - wait) },
+        };
+      }),
+    },
+  };
+  return JSON.stringify(har, null, 2);
+}
@@ -0,0 +1,115 @@
+/**
+ * Prompt matrix / parameter sweep: one input image run with every combination of
+ * prompt variants and parameter values. Combinations become batch tasks (see batch.ts),
+ * labelled so the results can be laid out as a comparison grid.
+ */
+
+import { BATCH_COUNT_MAX, BATCH_DURATION_MAX, BATCH_DURATION_MIN, type BatchMode, type BatchTask } from "./batch";
+import { calculateImageEditCost, calculateVideoCost, type ImageModel } from "./pricing";
+
+export interface SweepSpec {
+  mode: BatchMode;
+  prompts: string[];
+  /** Video sweeps. */
+  durations: number[];
+  resolutions: Array<"480p" | "720p">;
+  /** Image edit sweeps. */
+  models: ImageModel[];
+  counts: number[];
+}
+
+/** Above this total (USD) the user has to confirm before a sweep starts. */
+export const SWEEP_CONFIRM_THRESHOLD = 5;
+
+/**
+ * Parse "3, 6, 10" into unique whole numbers within [min, max], in the order given.
+ * Returns null if any value is not a whole number in range.
+ */
+export function parseSweepValues(text: string, min: number, max: number): number[] | null {
+  const values: number[] = [];
+  for (const part of text.split(/[\s,]+/).filter(Boolean)) {
+    const value = Number(part);
+    if (!Number.isInteger(value) || value < min || value > max) return null;
+    if (!values.includes(value)) values.push(value);
+  }
+  return values;
+}
+
+export function parseSweepDurations(text: string): number[] | null {
+  return parseSweepValues(text, BATCH_DURATION_MIN, BATCH_DURATION_MAX);
+}
+
+export function parseSweepCounts(text: string): number[] | null {
+  return parseSweepValues(text, 1, BATCH_COUNT_MAX);
+}
+
+/**
+ * Column label combinations for the spec, in grid order
+ */
+function getSweepColumns(spec: SweepSpec): Array<{ label: string; duration: number; resolution: "480p" | "720p"; model: ImageModel; count: number }> {
+  if (spec.mode === "image-to-video") {
+    return spec.durations.flatMap((duration) =>
+      spec.resolutions.map((resolution) => ({
+        label: `${duration}s · ${resolution}`,
+        duration,
+        resolution,
+        model: "grok-imagine-image" as const,
+        count: 1,
+      }))
+    );
+  }
+  return spec.models.flatMap((model) =>
+    spec.counts.map((count) => ({
+      label: `${model} · ×${count}`,
+      duration: 3,
+      resolution: "480p" as const,
+      model,
+      count,
+    }))
+  );
+}
+
+/**
+ * Number of generations the sweep expands to
+ */
+export function getSweepSize(spec: SweepSpec): number {
+  return spec.prompts.length * getSweepColumns(spec).length;
+}
+
+/**
+ * Total list price of the sweep
+ */
+export function getSweepCost(spec: SweepSpec): number {
+  const perPrompt = getSweepColumns(spec).reduce(
+    (sum, column) =>
+      sum +
+      (spec.mode === "image-to-video"
+        ? calculateVideoCost(column.duration, column.resolution)
+        : calculateImageEditCost(column.model, column.count)),
+    0
+  );
+  return perPrompt * spec.prompts.length;
+}
+
+/**
+ * Expand the cartesian product into batch tasks, one grid row per prompt variant
+ */
+export function expandSweep(spec: SweepSpec, imageDataUrl: string): BatchTask[] {
+  const columns = getSweepColumns(spec);
+  return spec.prompts.flatMap((prompt, p) =>
+    columns.map((column, c) => ({
+      id: crypto.randomUUID(),
+      line: p * columns.length + c + 1,
+      prompt,
+      image: "",
+      mode: spec.mode,
+      duration: column.duration,
+      resolution: column.resolution,
+      model: column.model,
+      count: column.count,
+      errors: [],
+      grid: { row: `Prompt ${p + 1}`, column: column.label },
+      imageDataUrl,
+    }))
+  );
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Format a duration as "42s" or "3m 05s"
+ */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${String(seconds % 60).padStart(2, "0")}s` : `${seconds}s`;
+}
+
+/**
+ * Milliseconds since startedAt, re-rendering once a second until finishedAt is set
+ */
+export function useElapsed(startedAt: number, finishedAt: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (finishedAt !== null) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [finishedAt]);
+
+  return (finishedAt ?? now) - startedAt;
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from "react";
+import type { GrokErrorKind } from "./grokErrors";
+import {
+  getNotificationSettings,
+  notifyJobFinished,
+  NOTIFICATION_SETTINGS_EVENT,
+  unlockCompletionSound,
+  updateTabIndicators,
+  type JobOutcome,
+} from "./notifications";
+
+interface WatchedJob {
+  id: string;
+  status: "running" | "done" | "failed" | "cancelled";
+  prompt: string;
+  error: string | null;
+  errorKind: GrokErrorKind | null;
+}
+
+function getOutcome(job: WatchedJob): JobOutcome | null {
+  if (job.status === "done") return "done";
+  if (job.status === "failed") return job.errorKind === "moderation" ? "moderated" : "failed";
+  return null;
+}
+
+/**
+ * Notify when image or video jobs finish, and keep the tab title and favicon showing how many are running
+ */
+export function useJobNotifications(imageJobs: readonly WatchedJob[], videoJobs: readonly WatchedJob[]): void {
+  const [settings, setSettings] = useState(getNotificationSettings);
+  // Last status seen per job, so each job is announced once, when it leaves "running"
+  const statuses = useRef(new Map<string, WatchedJob["status"]>());
+
+  useEffect(() => {
+    const reload = () => setSettings(getNotificationSettings());
+    window.addEventListener(NOTIFICATION_SETTINGS_EVENT, reload);
+    return () => window.removeEventListener(NOTIFICATION_SETTINGS_EVENT, reload);
+  }, []);
+
+  // After a reload the audio context has to be started again from a user gesture; the first click or key press will do
+  useEffect(() => {
+    if (!settings.sound) return;
+    const unlock = () => {
+      void unlockCompletionSound();
+      window.removeEventListener("pointerdown", unlock);
+      window.removeEventListener("keydown", unlock);
+    };
+    window.addEventListener("pointerdown", unlock);
+    window.addEventListener("keydown", unlock);
+    return () => {
+      window.removeEventListener("pointerdown", unlock);
+      window.removeEventListener("keydown", unlock);
+    };
+  }, [settings.sound]);
+
+  useEffect(() => {
+    const jobs = [
+      ...imageJobs.map((job) => ({ job, kind: "image" as const })),
+      ...videoJobs.map((job) => ({ job, kind: "video" as const })),
+    ];
+    for (const { job, kind } of jobs) {
+      const outcome = getOutcome(job);
+      if (statuses.current.get(job.id) === "running" && outcome) {
+        notifyJobFinished({ kind, outcome, prompt: job.prompt, error: job.error }, settings);
+      }
+    }
+    statuses.current = new Map(jobs.map(({ job }) => [job.id, job.status]));
+  }, [imageJobs, videoJobs, settings]);
+
+  const running = imageJobs.filter((job) => job.status === "running").length + videoJobs.filter((job) => job.status === "running").length;
+
+  useEffect(() => {
+    updateTabIndicators(running, settings);
+    // Pages set their own title on navigation; put the count back when they do
+    const titleElement = document.querySelector("title");
+    if (!titleElement) return;
+    const observer = new MutationObserver(() => updateTabIndicators(running, settings));
+    observer.observe(titleElement, { childList: true, characterData: true, subtree: true });
+    return () => observer.disconnect();
+  }, [running, settings]);
+}
@@ -0,0 +1,139 @@
+/**
+ * Persistent registry of xAI video jobs, stored in IndexedDB.
+ * Each request_id is recorded as soon as xAI accepts the job so a reload or a closed tab
+ * can resume polling instead of throwing away a job that has already been paid for.
+ */
+
+import type { VideoAspectRatio } from "./grokApi";
+
+export type VideoJobMode = "generate" | "edit" | "extend" | "text";
+
+export interface VideoJobRecord {
+  requestId: string;
+  mode: VideoJobMode;
+  prompt: string;
+  params: {
+    duration?: number;
+    resolution?: "480p" | "720p";
+    aspectRatio?: VideoAspectRatio;
+    sourceVideoUrl?: string;
+    sourceVideoName?: string;
+    sourceVideoKey?: string;
+    // Read from the source video of an edit or extension, for costing
+    sourceDuration?: number;
+    sourceResolution?: "480p" | "720p";
+  };
+  /** Thumbnail of the input (image or source video) used for the history entry. */
+  inputThumbnail?: string;
+  /** History item the input came from, so the result can link back to it. */
+  parentId?: string;
+  createdAt: number;
+  /** Times the job has been resumed after a reload; see MAX_RESUME_ATTEMPTS. */
+  resumeAttempts?: number;
+  /** The first attempt already recorded a moderation event (it failed for a reason resuming may fix). */
+  tracked?: boolean;
+}
+
+/** Resumes that may fail before a job is given up on. */
+export const MAX_RESUME_ATTEMPTS = 3;
+/** Jobs older than this are given up on without polling; xAI does not keep results that long. */
+export const MAX_VIDEO_JOB_AGE_MS = 24 * 60 * 60 * 1000;
+
+const DB_NAME = "grok-video-jobs-db";
+const DB_VERSION = 1;
+const STORE_NAME = "jobs";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open IndexedDB database.
+ * The connection is cached for the lifetime of the page.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "requestId" });
+      }
+    };
+  });
+
+  // Allow a later retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Record a video job that xAI has accepted
+ */
+export async function saveVideoJob(job: VideoJobRecord): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const request = transaction.objectStore(STORE_NAME).put(job);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  } catch (err) {
+    console.error("Failed to save video job:", err);
+  }
+}
+
+/**
+ * Remove a video job once its result has been stored (or it can no longer complete)
+ */
+export async function deleteVideoJob(requestId: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const request = transaction.objectStore(STORE_NAME).delete(requestId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  } catch (err) {
+    console.error("Failed to delete video job:", err);
+  }
+}
+
+/**
+ * Get every job that has not finished yet and is still worth resuming, oldest first.
+ * Jobs past MAX_VIDEO_JOB_AGE_MS or MAX_RESUME_ATTEMPTS are deleted instead.
+ */
+export async function getUnfinishedVideoJobs(): Promise<VideoJobRecord[]> {
+  if (!("indexedDB" in window)) return [];
+
+  try {
+    const db = await openDatabase();
+    const jobs = await new Promise<VideoJobRecord[]>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readonly");
+      const request = transaction.objectStore(STORE_NAME).getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as VideoJobRecord[]) ?? []);
+    });
+    const now = Date.now();
+    const stale = jobs.filter(
+      (job) => now - job.createdAt > MAX_VIDEO_JOB_AGE_MS || (job.resumeAttempts ?? 0) >= MAX_RESUME_ATTEMPTS
+    );
+    await Promise.all(stale.map((job) => deleteVideoJob(job.requestId)));
+    return jobs.filter((job) => !stale.includes(job)).sort((a, b) => a.createdAt - b.createdAt);
+  } catch (err) {
+    console.error("Failed to load video jobs:", err);
+    return [];
+  }
+}
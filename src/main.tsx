@@ -4,6 +4,9 @@ import { BrowserRouter } from "react-router-dom";
 import { Analytics } from "@vercel/analytics/react";
 import "./index.css";
 import App from "./App.tsx";
+import { migrateModerationHistory } from "./lib/moderationTracking";
+
+migrateModerationHistory();
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
@@ -0,0 +1,331 @@
+import { useEffect, useState } from "react";
+import LineChart from "../components/LineChart";
+import StackedBarChart from "../components/StackedBarChart";
+import {
+  ANALYTICS_DIMENSION_LABELS,
+  eventsToCsv,
+  filterEventsSince,
+  getDriftRate,
+  getDriftSummaries,
+  getGroupSummaries,
+  getModerationTrend,
+  getSpendSeries,
+  getTopPrompts,
+  type AnalyticsBucket,
+  type AnalyticsDimension,
+} from "../lib/analytics";
+import { getModerationHistory, type ModerationEvent } from "../lib/moderationTracking";
+
+type Range = "7" | "30" | "90" | "all";
+
+const RANGE_LABELS: Record<Range, string> = {
+  "7": "Last 7 days",
+  "30": "Last 30 days",
+  "90": "Last 90 days",
+  all: "All tracked",
+};
+
+const BUCKET_LABELS: Record<AnalyticsBucket, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const SERIES_COLORS = ["#646cff", "#34d399", "#fbbf24", "#f472b6", "#60a5fa", "#a78bfa", "#f87171", "#2dd4bf"];
+const TOP_PROMPTS = 10;
+// Drift beyond this share suggests the pricing table no longer matches what xAI bills
+const DRIFT_ALERT = 0.05;
+
+const formatCost = (cost: number) => `$${cost.toFixed(2)}`;
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const formatDrift = (rate: number | null) => (rate === null ? "—" : `${rate >= 0 ? "+" : ""}${formatPercent(rate)}`);
+
+function formatBucket(start: number, bucket: AnalyticsBucket): string {
+  const date = new Date(start);
+  if (bucket === "month") return date.toLocaleDateString(undefined, { month: "short", year: "2-digit" });
+  const day = date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return bucket === "week" ? `Wk ${day}` : day;
+}
+
+function loadSnapshot(): { allEvents: ModerationEvent[]; loadedAt: number } {
+  return { allEvents: getModerationHistory(), loadedAt: Date.now() };
+}
+
+export default function Analytics() {
+  const [{ allEvents, loadedAt }, setSnapshot] = useState(loadSnapshot);
+  const [range, setRange] = useState<Range>("30");
+  const [bucket, setBucket] = useState<AnalyticsBucket>("day");
+  const [dimension, setDimension] = useState<AnalyticsDimension>("type");
+
+  // Pick up generations finishing in the background or in other tabs
+  useEffect(() => {
+    const interval = setInterval(() => setSnapshot(loadSnapshot()), 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const since = range === "all" ? null : loadedAt - Number(range) * 86_400_000;
+  const events = filterEventsSince(allEvents, since);
+  const counted = events.filter((event) => !event.cancelled);
+  const totalCost = counted.reduce((sum, event) => sum + event.cost, 0);
+  const moderated = counted.filter((event) => event.moderated);
+  const wasted = moderated.reduce((sum, event) => sum + event.cost, 0);
+
+  const series = getSpendSeries(counted, bucket, dimension);
+  const trend = getModerationTrend(events, bucket);
+  const groups = getGroupSummaries(events, dimension);
+  const wastedByMode = getGroupSummaries(events, "mode").filter((group) => group.wasted > 0);
+  const topPrompts = getTopPrompts(events, TOP_PROMPTS);
+  const drift = getDriftSummaries(events, dimension);
+  const driftTotal = drift.reduce(
+    (total, group) => ({
+      ...total,
+      events: total.events + group.events,
+      estimated: total.estimated + group.estimated,
+      actual: total.actual + group.actual,
+    }),
+    { group: "All", events: 0, estimated: 0, actual: 0 }
+  );
+  const colorOf = (group: string) => SERIES_COLORS[series.groups.indexOf(group) % SERIES_COLORS.length];
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([eventsToCsv(events)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `grok-usage-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="page analytics-page">
+      <div className="history-header">
+        <h1>Analytics</h1>
+        <div className="history-header-actions">
+          <button type="button" onClick={exportCsv} disabled={events.length === 0} className="btn-archive">
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="analytics-filters">
+        <label>
+          Range{" "}
+          <select value={range} onChange={(e) => setRange(e.target.value as Range)}>
+            {Object.entries(RANGE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Group by time{" "}
+          <select value={bucket} onChange={(e) => setBucket(e.target.value as AnalyticsBucket)}>
+            {Object.entries(BUCKET_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Break down by{" "}
+          <select value={dimension} onChange={(e) => setDimension(e.target.value as AnalyticsDimension)}>
+            {Object.entries(ANALYTICS_DIMENSION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {counted.length === 0 ? (
+        <p className="empty-state">No generations tracked in this range.</p>
+      ) : (
+        <>
+          <div className="moderation-stats-summary">
+            <div className="stat-card">
+              <div className="stat-label">Spend</div>
+              <div className="stat-value">{formatCost(totalCost)}</div>
+              <div className="stat-subtitle">{counted.length} generations</div>
+            </div>
+            <div className="stat-card stat-danger">
+              <div className="stat-label">Moderated</div>
+              <div className="stat-value">{moderated.length}</div>
+              <div className="stat-subtitle">{formatPercent(moderated.length / counted.length)}</div>
+            </div>
+            <div className="stat-card stat-warning">
+              <div className="stat-label">Wasted</div>
+              <div className="stat-value">{formatCost(wasted)}</div>
+              <div className="stat-subtitle">{totalCost > 0 ? formatPercent(wasted / totalCost) : "—"} of spend</div>
+            </div>
+            <div className={`stat-card${Math.abs(getDriftRate(driftTotal) ?? 0) > DRIFT_ALERT ? " stat-warning" : ""}`}>
+              <div className="stat-label">Reported by xAI</div>
+              <div className="stat-value">{driftTotal.events > 0 ? formatCost(driftTotal.actual) : "—"}</div>
+              <div className="stat-subtitle">
+                {driftTotal.events > 0
+                  ? `${formatDrift(getDriftRate(driftTotal))} vs estimate · ${driftTotal.events} generations`
+                  : "No billing data returned yet"}
+              </div>
+            </div>
+          </div>
+
+          <section className="analytics-section">
+            <h2>Spend by {ANALYTICS_DIMENSION_LABELS[dimension].toLowerCase()}</h2>
+            <StackedBarChart
+              labels={series.buckets.map((start) => formatBucket(start, bucket))}
+              series={series.groups.map((group) => ({ name: group, color: colorOf(group), values: series.values[group] }))}
+              formatValue={formatCost}
+              ariaLabel={`Spend over time by ${ANALYTICS_DIMENSION_LABELS[dimension].toLowerCase()}`}
+            />
+            <ul className="chart-legend">
+              {series.groups.map((group) => (
+                <li key={group}>
+                  <span className="chart-swatch" style={{ background: colorOf(group) }} /> {group}
+                </li>
+              ))}
+            </ul>
+            <table className="batch-table">
+              <thead>
+                <tr>
+                  <th>{ANALYTICS_DIMENSION_LABELS[dimension]}</th>
+                  <th>Generations</th>
+                  <th>Moderated</th>
+                  <th>Spend</th>
+                  <th>Wasted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((group) => (
+                  <tr key={group.group}>
+                    <td>{group.group}</td>
+                    <td>{group.attempts}</td>
+                    <td>
+                      {group.moderated} ({formatPercent(group.moderated / group.attempts)})
+                    </td>
+                    <td>{formatCost(group.cost)}</td>
+                    <td>{formatCost(group.wasted)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section className="analytics-section">
+            <h2>Estimate vs. reported cost</h2>
+            {drift.length === 0 ? (
+              <p className="cost-detail-note">
+                xAI has not returned cost data for any generation in this range, so only estimates are available.
+              </p>
+            ) : (
+              <>
+                <table className="batch-table">
+                  <thead>
+                    <tr>
+                      <th>{ANALYTICS_DIMENSION_LABELS[dimension]}</th>
+                      <th>Generations</th>
+                      <th>Estimated</th>
+                      <th>Reported</th>
+                      <th>Drift</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {drift.map((group) => {
+                      const rate = getDriftRate(group);
+                      return (
+                        <tr key={group.group}>
+                          <td>{group.group}</td>
+                          <td>{group.events}</td>
+                          <td>{formatCost(group.estimated)}</td>
+                          <td>{formatCost(group.actual)}</td>
+                          <td className={Math.abs(rate ?? 0) > DRIFT_ALERT ? "stat-danger-text" : undefined}>{formatDrift(rate)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className="cost-detail-note">
+                  Only generations whose xAI responses included a cost are compared. Drift over{" "}
+                  {formatPercent(DRIFT_ALERT)} usually means the pricing table in Settings is out of date.
+                </p>
+              </>
+            )}
+          </section>
+
+          <section className="analytics-section">
+            <h2>Moderation rate</h2>
+            <LineChart
+              points={trend.map((point) => ({
+                label: formatBucket(point.bucket, bucket),
+                value: point.rate,
+                detail: `${point.moderated} of ${point.attempts} moderated (${formatPercent(point.rate)})`,
+              }))}
+              max={1}
+              formatValue={(value) => `${Math.round(value * 100)}%`}
+              ariaLabel="Moderation rate over time"
+            />
+          </section>
+
+          <section className="analytics-section">
+            <h2>Wasted on moderated runs</h2>
+            {wastedByMode.length === 0 ? (
+              <p className="cost-detail-note">Nothing moderated in this range.</p>
+            ) : (
+              <table className="batch-table">
+                <thead>
+                  <tr>
+                    <th>Mode</th>
+                    <th>Moderated</th>
+                    <th>Wasted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {wastedByMode.map((group) => (
+                    <tr key={group.group}>
+                      <td>{group.group}</td>
+                      <td>
+                        {group.moderated} of {group.attempts}
+                      </td>
+                      <td>{formatCost(group.wasted)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section className="analytics-section">
+            <h2>Most expensive prompts</h2>
+            <table className="batch-table">
+              <thead>
+                <tr>
+                  <th>Prompt</th>
+                  <th>Type</th>
+                  <th>Runs</th>
+                  <th>Moderated</th>
+                  <th>Spend</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topPrompts.map((prompt) => (
+                  <tr key={`${prompt.type}:${prompt.prompt}`}>
+                    <td className="batch-prompt">{prompt.prompt || <em>(empty)</em>}</td>
+                    <td>{prompt.type === "video" ? "Video" : "Image"}</td>
+                    <td>{prompt.attempts}</td>
+                    <td>{prompt.moderated}</td>
+                    <td>{formatCost(prompt.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <p className="cost-detail-note">
+            Based on the last {allEvents.length} tracked generations in this browser. Cancelled runs are not counted.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useCallback, useMemo, useState } from "react";
+import BatchRunCell from "../components/BatchRunCell";
+import ComparisonGrid from "../components/ComparisonGrid";
+import SweepBuilder from "../components/SweepBuilder";
+import { useAppState } from "../context/AppStateContext";
+import {
+  BATCH_CSV_TEMPLATE,
+  getBatchCharge,
+  getBatchRowCost,
+  getBatchTotalCost,
+  parseBatchFile,
+  resolveBatchImage,
+  type BatchRow,
+  type BatchRowStatus,
+  type BatchTask,
+} from "../lib/batch";
+import { blobToDataUrl } from "../lib/mediaStore";
+
+const CONCURRENCY_MAX = 6;
+
+function describeRow(row: BatchRow): string {
+  return row.mode === "image-edit"
+    ? `Image edit · ${row.model} · ×${row.count}`
+    : `Image to video · ${row.duration}s · ${row.resolution}`;
+}
+
+export default function Batch() {
+  const { state, startBatch, retryBatchRows, cancelBatch, clearBatch, confirmBudget } = useAppState();
+  const { tasks, runs, running } = state.batch;
+
+  const [source, setSource] = useState<"list" | "sweep">("list");
+  const [rows, setRows] = useState<BatchRow[] | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [images, setImages] = useState<Map<string, string>>(new Map());
+  const [concurrency, setConcurrency] = useState(state.batch.concurrency);
+  const [localError, setLocalError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const onListSelect = useCallback(async (file: File) => {
+    setLocalError(null);
+    try {
+      setRows(parseBatchFile(file.name, await file.text()));
+      setFileName(file.name);
+    } catch (err) {
+      setRows(null);
+      setFileName(null);
+      setLocalError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, []);
+
+  const onImagesSelect = useCallback(async (files: File[]) => {
+    const next = new Map(images);
+    for (const file of files) {
+      if (!file.type.startsWith("image/")) continue;
+      next.set(file.name, await blobToDataUrl(file));
+    }
+    setImages(next);
+  }, [images]);
+
+  // Each parsed row with its input image (if found) and any reason it can't run
+  const checkedRows = useMemo(
+    () =>
+      (rows ?? []).map((row) => {
+        const image = resolveBatchImage(row.image, images);
+        const problems = [...row.errors];
+        if (!image) {
+          problems.push(row.image ? `No uploaded image named "${row.image}"` : "No image given (upload exactly one image to use it for every row)");
+        }
+        return { row, image, problems };
+      }),
+    [rows, images]
+  );
+  const runnable = checkedRows.filter((checked) => checked.problems.length === 0);
+  const totalCost = getBatchTotalCost(runnable.map((checked) => checked.row));
+
+  // Budgets are checked against the whole batch up front, split by what each row generates
+  const runBatch = async (batchTasks: BatchTask[]): Promise<boolean> => {
+    const description = `This batch of ${batchTasks.length} row${batchTasks.length === 1 ? "" : "s"}`;
+    if (!(await confirmBudget(getBatchCharge(batchTasks), description))) return false;
+    startBatch(batchTasks, concurrency);
+    return true;
+  };
+
+  const handleStart = async () => {
+    if (runnable.length === 0) return;
+    setStarting(true);
+    setLocalError(null);
+    try {
+      // Remote images are fetched up front so a bad link fails before anything is billed
+      const fetched = new Map<string, string>();
+      const batchTasks: BatchTask[] = [];
+      for (const { row, image } of runnable) {
+        let imageDataUrl = image!;
+        if (/^https?:/i.test(imageDataUrl)) {
+          if (!fetched.has(imageDataUrl)) {
+            // Sites that do not allow cross-origin downloads reject the request outright
+            const response = await fetch(imageDataUrl).catch(() => {
+              throw new Error(`Could not fetch ${imageDataUrl}. The site may not allow downloads from other pages; upload the image instead.`);
+            });
+            if (!response.ok) throw new Error(`Could not fetch ${imageDataUrl} (HTTP ${response.status})`);
+            fetched.set(imageDataUrl, await blobToDataUrl(await response.blob()));
+          }
+          imageDataUrl = fetched.get(imageDataUrl)!;
+        }
+        batchTasks.push({ ...row, imageDataUrl });
+      }
+      if (await runBatch(batchTasks)) {
+        setRows(null);
+        setFileName(null);
+      }
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([BATCH_CSV_TEMPLATE], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "batch-template.csv";
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const counts = tasks.reduce(
+    (acc, task) => {
+      const status = runs[task.id]?.status ?? "pending";
+      acc[status]++;
+      return acc;
+    },
+    { pending: 0, running: 0, done: 0, failed: 0, moderated: 0, cancelled: 0 } as Record<BatchRowStatus, number>
+  );
+  const finished = counts.done + counts.failed + counts.moderated + counts.cancelled;
+  const retryable = tasks.filter((task) => runs[task.id]?.status === "failed" || runs[task.id]?.status === "cancelled");
+
+  return (
+    <div className="page batch-page">
+      <h1>Batch</h1>
+      <p className="batch-intro">
+        Run a list of prompts against one or more input images. Upload a CSV or JSON file with the columns{" "}
+        <code>prompt, image, mode, duration, resolution, model, count</code>, plus the images it refers to by file name.{" "}
+        <button type="button" className="btn-link" onClick={downloadTemplate}>
+          Download a CSV template
+        </button>
+      </p>
+      <p className="batch-intro">
+        Or build a sweep: one image, several prompt variants and several settings, run as every combination and shown
+        side by side in a comparison grid.
+      </p>
+
+      {tasks.length > 0 ? (
+        <div className="batch-run">
+          <div className="batch-run-header">
+            <span>
+              {finished} of {tasks.length} finished · {counts.done} done · {counts.failed} failed · {counts.moderated} moderated
+              {counts.cancelled > 0 ? ` · ${counts.cancelled} cancelled` : ""}
+            </span>
+            <div className="batch-run-actions">
+              {running && (
+                <button type="button" className="btn-cancel-generation" onClick={cancelBatch}>
+                  Cancel batch
+                </button>
+              )}
+              {retryable.length > 0 && (
+                <button type="button" onClick={() => void retryBatchRows(retryable.map((task) => task.id))}>
+                  Retry failed ({retryable.length})
+                </button>
+              )}
+              {!running && (
+                <button type="button" onClick={clearBatch}>
+                  New batch
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="upload-progress-track" aria-hidden="true">
+            <div className="upload-progress-fill" style={{ width: `${(finished / tasks.length) * 100}%` }} />
+          </div>
+
+          {tasks.some((task) => task.grid) ? (
+            <ComparisonGrid tasks={tasks} runs={runs} onRetry={(rowId) => void retryBatchRows([rowId])} />
+          ) : (
+            <table className="batch-table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Prompt</th>
+                  <th>Settings</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.map((task) => (
+                  <tr key={task.id} className="batch-row">
+                    <td>{task.line}</td>
+                    <td className="batch-prompt">{task.prompt}</td>
+                    <td>{describeRow(task)}</td>
+                    <td>
+                      <BatchRunCell task={task} run={runs[task.id]} onRetry={() => void retryBatchRows([task.id])} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : (
+        <div className="form">
+          <div className="block">
+            <span>Source</span>
+            <div className="batch-source-options" role="radiogroup" aria-label="Batch source">
+              <button
+                type="button"
+                role="radio"
+                aria-checked={source === "list"}
+                className={`batch-source-option ${source === "list" ? "active" : ""}`}
+                onClick={() => setSource("list")}
+              >
+                Prompt list
+              </button>
+              <button
+                type="button"
+                role="radio"
+                aria-checked={source === "sweep"}
+                className={`batch-source-option ${source === "sweep" ? "active" : ""}`}
+                onClick={() => setSource("sweep")}
+              >
+                Sweep
+              </button>
+            </div>
+          </div>
+
+          <label className="block">
+            <span>Run at most this many rows at once</span>
+            <input
+              type="number"
+              min={1}
+              max={CONCURRENCY_MAX}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.min(CONCURRENCY_MAX, Math.max(1, Number(e.target.value) || 1)))}
+            />
+          </label>
+
+          {source === "sweep" ? (
+            <SweepBuilder onStart={(sweepTasks) => void runBatch(sweepTasks)} />
+          ) : (
+            <>
+              <label className="block">
+                <span>Prompt list (CSV or JSON)</span>
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) void onListSelect(file);
+                  }}
+                />
+                {fileName && <span className="cost-detail-note">Loaded {fileName}</span>}
+              </label>
+
+              <label className="block">
+                <span>Input images</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files ?? []);
+                    e.target.value = "";
+                    if (files.length > 0) void onImagesSelect(files);
+                  }}
+                />
+                {images.size > 0 && (
+                  <span className="cost-detail-note">
+                    {[...images.keys()].join(", ")}{" "}
+                    <button type="button" className="btn-link" onClick={() => setImages(new Map())}>
+                      Clear
+                    </button>
+                  </span>
+                )}
+              </label>
+
+              {rows && (
+                <>
+                  <table className="batch-table">
+                    <thead>
+                      <tr>
+                        <th>#</th>
+                        <th>Prompt</th>
+                        <th>Settings</th>
+                        <th>Image</th>
+                        <th>Price</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {checkedRows.map(({ row, problems }) => (
+                        <tr key={row.id} className={problems.length > 0 ? "batch-row--invalid" : undefined}>
+                          <td>{row.line}</td>
+                          <td className="batch-prompt">
+                            {row.prompt || <em>(empty)</em>}
+                            {problems.map((problem) => (
+                              <p key={problem} className="error batch-note">{problem}</p>
+                            ))}
+                          </td>
+                          <td>{describeRow(row)}</td>
+                          <td>{row.image || (images.size === 1 ? [...images.keys()][0] : "—")}</td>
+                          <td>${getBatchRowCost(row).toFixed(3)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <div className="cost-estimator">
+                    <span>Total for {runnable.length} of {rows.length} rows:</span>{" "}
+                    <span className="cost-estimator-value">${totalCost.toFixed(3)} USD</span>
+                    {runnable.length < rows.length && (
+                      <p className="cost-detail-note">Rows with problems are skipped and not charged.</p>
+                    )}
+                  </div>
+
+                  <button type="button" onClick={handleStart} disabled={runnable.length === 0 || starting}>
+                    {starting ? "Preparing…" : `Start batch (${runnable.length} rows · $${totalCost.toFixed(2)})`}
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {localError && <p className="error">{localError}</p>}
+    </div>
+  );
+}
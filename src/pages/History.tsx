@@ -1,24 +1,112 @@
-import { useState, useEffect } from "react";
-import { getHistory, deleteHistoryItem, deleteHistoryItems, clearHistory, type HistoryItem } from "../lib/history";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { getHistoryPage, countHistory, deleteHistoryItem, deleteHistoryItems, clearHistory, getModeLabel, type HistoryItem } from "../lib/history";
+import { blobToDataUrl, getMedia, getMediaExtension } from "../lib/mediaStore";
+import { buildBranch, buildRemix, getBranchOptions, getRemixSources, type BranchAction, type BranchTarget } from "../lib/historyBranch";
+import { useAppState } from "../context/AppStateContext";
+import { clearHistoryFilters, hasActiveHistoryFilters, parseHistoryFilters } from "../lib/historyFilters";
 import ModerationStats from "../components/ModerationStats";
+import { exportHistoryArchive, getArchiveFilename, importHistoryArchive } from "../lib/historyArchive";
+import { isAutoSaveEnabled } from "../lib/autoSave";
+import MediaStorageUsage from "../components/MediaStorageUsage";
+import HistoryFiltersBar from "../components/HistoryFiltersBar";
+import LineageTree from "../components/LineageTree";
+import CompareViewer from "../components/CompareViewer";
+import { COMPARE_MAX, COMPARE_MIN, loadHistoryCompareItems, releaseCompareItems, type CompareItem } from "../lib/compare";
+
+/**
+ * Load the full-size media for a history item from IndexedDB as an object URL.
+ * Returns null while loading, or when the blob was never stored or has been evicted.
+ */
+function useStoredMedia(itemId: string | null, reloadKey: number) {
+  const [media, setMedia] = useState<{ itemId: string; url: string; mimeType: string } | null>(null);
+
+  useEffect(() => {
+    if (!itemId) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    void getMedia(itemId).then((blob) => {
+      if (cancelled) return;
+      if (!blob) {
+        setMedia(null);
+        return;
+      }
+      objectUrl = URL.createObjectURL(blob);
+      setMedia({ itemId, url: objectUrl, mimeType: blob.type });
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [itemId, reloadKey]);
+
+  return media && media.itemId === itemId ? media : null;
+}
 
 export default function History() {
+  const navigate = useNavigate();
+  const { state: appState, updateImageToImageState, updateImageToVideoState } = useAppState();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseHistoryFilters(searchParams), [searchParams]);
+  const filtersActive = hasActiveHistoryFilters(searchParams);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [selectedItem, setSelectedItem] = useState<HistoryItem | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectionMode, setSelectionMode] = useState(false);
+  const [mediaVersion, setMediaVersion] = useState(0);
+  const selectedMedia = useStoredMedia(selectedItem?.id ?? null, mediaVersion);
+  // Bumped to re-run the current query after deletes
+  const [reloadKey, setReloadKey] = useState(0);
+  // Ignore "load more" results that arrive after the filters changed
+  const loadSeq = useRef(0);
+  const [archiveBusy, setArchiveBusy] = useState<"export" | "import" | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [compareItems, setCompareItems] = useState<CompareItem[] | null>(null);
 
   useEffect(() => {
-    loadHistory();
-  }, []);
+    let cancelled = false;
+    const seq = ++loadSeq.current;
+    void Promise.all([getHistoryPage(filters), countHistory(filters)]).then(([page, count]) => {
+      if (cancelled || seq !== loadSeq.current) return;
+      setHistory(page.items);
+      setNextCursor(page.nextCursor);
+      setTotalCount(count);
+      setMediaVersion((version) => version + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, reloadKey]);
 
-  const loadHistory = () => {
-    setHistory(getHistory());
+  const loadHistory = () => setReloadKey((key) => key + 1);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    const seq = loadSeq.current;
+    setLoadingMore(true);
+    const page = await getHistoryPage({ ...filters, cursor: nextCursor });
+    setLoadingMore(false);
+    if (seq !== loadSeq.current) return;
+    setHistory((prev) => [...prev, ...page.items]);
+    setNextCursor(page.nextCursor);
   };
 
-  const handleDelete = (id: string) => {
+  const handleFiltersChange = useCallback(
+    (next: URLSearchParams) => {
+      setSearchParams(next, { replace: true });
+      setSelectedIds(new Set());
+    },
+    [setSearchParams]
+  );
+
+  const handleDelete = async (id: string) => {
     if (confirm("Delete this item from history?")) {
-      deleteHistoryItem(id);
+      await deleteHistoryItem(id);
       loadHistory();
       if (selectedItem?.id === id) {
         setSelectedItem(null);
@@ -26,9 +114,9 @@ export default function History() {
     }
   };
 
-  const handleClearAll = () => {
+  const handleClearAll = async () => {
     if (confirm("Clear all history? This cannot be undone.")) {
-      clearHistory();
+      await clearHistory();
       loadHistory();
       setSelectedItem(null);
       setSelectedIds(new Set());
@@ -36,6 +124,71 @@ export default function History() {
     }
   };
 
+  const handleExport = async () => {
+    setArchiveBusy("export");
+    try {
+      const archive = await exportHistoryArchive();
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getArchiveFilename();
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error("Failed to export history:", err);
+      alert(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setArchiveBusy(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setArchiveBusy("import");
+    try {
+      const result = await importHistoryArchive(file);
+      loadHistory();
+      const lines = [
+        `Imported ${result.itemsAdded} item${result.itemsAdded === 1 ? "" : "s"} (${result.mediaAdded} with full media).`,
+      ];
+      if (result.itemsSkipped > 0) {
+        lines.push(`Skipped ${result.itemsSkipped} already in your history.`);
+      }
+      if (result.moderationEventsAdded > 0) {
+        lines.push(`Added ${result.moderationEventsAdded} moderation log entries.`);
+      }
+      if (result.autoSaveEnabled && !isAutoSaveEnabled()) {
+        lines.push("Auto-save was on where this archive came from. Choose a folder in Auto-Save settings to turn it on here.");
+      }
+      alert(lines.join("\n"));
+    } catch (err) {
+      console.error("Failed to import history:", err);
+      alert(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setArchiveBusy(null);
+    }
+  };
+
+  const openGenerator = (target: BranchTarget) => {
+    if (target.imageToImage) updateImageToImageState(target.imageToImage);
+    if (target.imageToVideo) updateImageToVideoState(target.imageToVideo);
+    navigate(target.path);
+  };
+
+  // Load an item into its generator as the source of a new generation; the result links back to it
+  const handleBranch = async (item: HistoryItem, action: BranchAction) => {
+    let imageDataUrl = item.resultUrl;
+    if (item.type === "image") {
+      const blob = await getMedia(item.id);
+      if (blob) imageDataUrl = await blobToDataUrl(blob);
+    }
+    openGenerator(buildBranch(item, action, imageDataUrl, appState.imageToVideo.duration));
+  };
+
+  // Reload an item's prompt, settings and source into its generator so it can be re-run or tweaked
+  const handleRemix = async (item: HistoryItem) => {
+    openGenerator(buildRemix(item, await getRemixSources(item)));
+  };
+
   const toggleSelectionMode = () => {
     setSelectionMode(!selectionMode);
     setSelectedIds(new Set());
@@ -52,18 +205,28 @@ export default function History() {
     setSelectedIds(newSelected);
   };
 
-  const handleDeleteSelected = () => {
+  const handleDeleteSelected = async () => {
     if (selectedIds.size === 0) return;
 
     const count = selectedIds.size;
     if (confirm(`Delete ${count} selected item${count > 1 ? "s" : ""}?`)) {
-      deleteHistoryItems(Array.from(selectedIds));
+      await deleteHistoryItems(Array.from(selectedIds));
       loadHistory();
       setSelectedIds(new Set());
       setSelectionMode(false);
     }
   };
 
+  const handleCompare = async () => {
+    const items = history.filter((item) => selectedIds.has(item.id));
+    setCompareItems(await loadHistoryCompareItems(items));
+  };
+
+  const closeCompare = useCallback(() => {
+    if (compareItems) releaseCompareItems(compareItems);
+    setCompareItems(null);
+  }, [compareItems]);
+
   const selectAll = () => {
     setSelectedIds(new Set(history.map(item => item.id)));
   };
@@ -74,12 +237,17 @@ export default function History() {
 
   const handleDownload = (item: HistoryItem) => {
     const link = document.createElement("a");
-    link.href = item.resultUrl;
-    // Videos are stored as thumbnails, so download as jpg
-    const extension = "jpg";
     const timestamp = new Date(item.timestamp).toISOString().slice(0, 10);
-    const typeLabel = item.type === "video" ? "video-thumbnail" : "image";
-    link.download = `grok-${typeLabel}-${timestamp}.${extension}`;
+    if (selectedMedia) {
+      link.href = selectedMedia.url;
+      const extension = getMediaExtension(selectedMedia.mimeType, item.type);
+      link.download = `grok-${item.type}-${timestamp}.${extension}`;
+    } else {
+      // Full media is missing (older entry or evicted), so fall back to the stored jpg thumbnail
+      link.href = item.resultUrl;
+      const typeLabel = item.type === "video" ? "video-thumbnail" : "image";
+      link.download = `grok-${typeLabel}-${timestamp}.jpg`;
+    }
     link.click();
   };
 
@@ -102,25 +270,63 @@ export default function History() {
     <div className="page history-page">
       <div className="history-header">
         <h1>Generation History</h1>
-        {history.length > 0 && (
-          <div className="history-header-actions">
+        <div className="history-header-actions">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void handleImport(file);
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            disabled={archiveBusy !== null}
+            className="btn-archive"
+            title="Merge a history archive into this history"
+          >
+            {archiveBusy === "import" ? "Importing…" : "Import"}
+          </button>
+          {(totalCount > 0 || filtersActive) && (
             <button
               type="button"
-              onClick={toggleSelectionMode}
-              className={`btn-select-mode ${selectionMode ? "active" : ""}`}
+              onClick={handleExport}
+              disabled={archiveBusy !== null}
+              className="btn-archive"
+              title="Download all history, media and moderation log as a ZIP"
             >
-              {selectionMode ? "Cancel" : "Select"}
+              {archiveBusy === "export" ? "Exporting…" : "Export"}
             </button>
-            {!selectionMode && (
-              <button type="button" onClick={handleClearAll} className="btn-clear-history">
-                Clear All
+          )}
+          {history.length > 0 && (
+            <>
+              <button
+                type="button"
+                onClick={toggleSelectionMode}
+                className={`btn-select-mode ${selectionMode ? "active" : ""}`}
+              >
+                {selectionMode ? "Cancel" : "Select"}
               </button>
-            )}
-          </div>
-        )}
+              {!selectionMode && (
+                <button type="button" onClick={handleClearAll} className="btn-clear-history">
+                  Clear All
+                </button>
+              )}
+            </>
+          )}
+        </div>
       </div>
 
       <ModerationStats />
+      <MediaStorageUsage refreshKey={mediaVersion} onEvicted={() => setMediaVersion((version) => version + 1)} />
+
+      {(history.length > 0 || filtersActive) && (
+        <HistoryFiltersBar params={searchParams} onChange={handleFiltersChange} />
+      )}
 
       {selectionMode && history.length > 0 && (
         <div className="selection-toolbar">
@@ -128,13 +334,21 @@ export default function History() {
             {selectedIds.size > 0 ? (
               <span>{selectedIds.size} item{selectedIds.size > 1 ? "s" : ""} selected</span>
             ) : (
-              <span>Select items to delete</span>
+              <span>Select items to compare or delete</span>
             )}
           </div>
           <div className="selection-actions">
             <button type="button" onClick={selectAll} className="btn-select-all">
               Select All
             </button>
+            <button
+              type="button"
+              onClick={handleCompare}
+              disabled={selectedIds.size < COMPARE_MIN || selectedIds.size > COMPARE_MAX}
+              title={`Select ${COMPARE_MIN} to ${COMPARE_MAX} items to compare them side by side`}
+            >
+              Compare{selectedIds.size > 0 ? ` (${selectedIds.size})` : ""}
+            </button>
             {selectedIds.size > 0 && (
               <>
                 <button type="button" onClick={deselectAll} className="btn-deselect-all">
@@ -150,45 +364,63 @@ export default function History() {
       )}
 
       {history.length === 0 ? (
-        <p className="empty-state">No generations yet. Create some images or videos to see them here!</p>
+        filtersActive ? (
+          <div className="empty-state">
+            <p>No generations match these filters.</p>
+            <button type="button" onClick={() => handleFiltersChange(clearHistoryFilters(searchParams))}>
+              Clear filters
+            </button>
+          </div>
+        ) : (
+          <p className="empty-state">No generations yet. Create some images or videos to see them here!</p>
+        )
       ) : (
         <div className="history-layout">
-          <div className="history-grid">
-            {history.map((item) => (
-              <div
-                key={item.id}
-                className={`history-card ${selectedItem?.id === item.id && !selectionMode ? "selected" : ""} ${selectedIds.has(item.id) ? "checked" : ""}`}
-                onClick={() => {
-                  if (selectionMode) {
-                    toggleItemSelection(item.id);
-                  } else {
-                    setSelectedItem(item);
-                  }
-                }}
-              >
-                {selectionMode && (
-                  <div className="history-card-checkbox">
-                    <input
-                      type="checkbox"
-                      checked={selectedIds.has(item.id)}
-                      onChange={() => toggleItemSelection(item.id)}
-                      onClick={(e) => e.stopPropagation()}
-                    />
+          <div className="history-list">
+            <div className="history-grid">
+              {history.map((item) => (
+                <div
+                  key={item.id}
+                  className={`history-card ${selectedItem?.id === item.id && !selectionMode ? "selected" : ""} ${selectedIds.has(item.id) ? "checked" : ""}`}
+                  onClick={() => {
+                    if (selectionMode) {
+                      toggleItemSelection(item.id);
+                    } else {
+                      setSelectedItem(item);
+                    }
+                  }}
+                >
+                  {selectionMode && (
+                    <div className="history-card-checkbox">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(item.id)}
+                        onChange={() => toggleItemSelection(item.id)}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                    </div>
+                  )}
+                  <div className="history-card-preview">
+                    {/* Always show as image since we store thumbnails for videos */}
+                    <img src={item.resultUrl} alt="Generated" className="history-thumbnail" />
+                    <div className="history-card-type">
+                      {item.type === "video" ? "🎥" : "🖼️"}
+                    </div>
                   </div>
-                )}
-                <div className="history-card-preview">
-                  {/* Always show as image since we store thumbnails for videos */}
-                  <img src={item.resultUrl} alt="Generated" className="history-thumbnail" />
-                  <div className="history-card-type">
-                    {item.type === "video" ? "🎥" : "🖼️"}
+                  <div className="history-card-info">
+                    <p className="history-card-prompt">{item.prompt}</p>
+                    <p className="history-card-date">{formatDate(item.timestamp)}</p>
                   </div>
                 </div>
-                <div className="history-card-info">
-                  <p className="history-card-prompt">{item.prompt}</p>
-                  <p className="history-card-date">{formatDate(item.timestamp)}</p>
-                </div>
+              ))}
+            </div>
+            {nextCursor && (
+              <div className="history-load-more">
+                <button type="button" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? "Loading…" : `Load more (${history.length} of ${totalCount})`}
+                </button>
               </div>
-            ))}
+            )}
           </div>
 
           {selectedItem && (
@@ -206,11 +438,19 @@ export default function History() {
               </div>
 
               <div className="history-detail-content">
-                {/* Show thumbnail for videos since we don't store full videos */}
-                <img src={selectedItem.resultUrl} alt="Generated" className="history-detail-media" />
-                {selectedItem.type === "video" && (
+                {selectedMedia && selectedItem.type === "video" ? (
+                  <video
+                    src={selectedMedia.url}
+                    poster={selectedItem.resultUrl}
+                    controls
+                    className="history-detail-media"
+                  />
+                ) : (
+                  <img src={selectedMedia?.url ?? selectedItem.resultUrl} alt="Generated" className="history-detail-media" />
+                )}
+                {!selectedMedia && selectedItem.type === "video" && (
                   <p className="video-note">
-                    <em>Note: This is a thumbnail of the generated video. Full videos are not stored in history to save space.</em>
+                    <em>Note: This is a thumbnail of the generated video. The full video was not stored or has been removed to free up space.</em>
                   </p>
                 )}
 
@@ -224,11 +464,14 @@ export default function History() {
                   {selectedItem.metadata?.resolution && (
                     <p><strong>Resolution:</strong> {selectedItem.metadata.resolution}</p>
                   )}
+                  {selectedItem.metadata?.aspectRatio && (
+                    <p><strong>Aspect Ratio:</strong> {selectedItem.metadata.aspectRatio}</p>
+                  )}
                   {selectedItem.metadata?.model && (
                     <p><strong>Model:</strong> {selectedItem.metadata.model}</p>
                   )}
                   {selectedItem.metadata?.mode && (
-                    <p><strong>Mode:</strong> {selectedItem.metadata.mode === "extend" ? "Video extension" : selectedItem.metadata.mode === "edit" ? "Video edit" : "Image to video"}</p>
+                    <p><strong>Mode:</strong> {getModeLabel(selectedItem)}</p>
                   )}
                   {selectedItem.metadata?.sourceVideoUrl && (
                     <p><strong>Source Video:</strong> <a href={selectedItem.metadata.sourceVideoUrl} target="_blank" rel="noreferrer">Open source video</a></p>
@@ -238,9 +481,33 @@ export default function History() {
                   )}
                 </div>
 
+                <LineageTree
+                  itemId={selectedItem.id}
+                  reloadKey={reloadKey}
+                  onSelect={setSelectedItem}
+                  onBranch={handleBranch}
+                />
+
+                <div className="history-detail-actions history-detail-branch">
+                  <button type="button" onClick={() => handleRemix(selectedItem)} title="Open in the generator with the same prompt, settings and source">
+                    Remix
+                  </button>
+                  {getBranchOptions(selectedItem).map((option) => (
+                    <button
+                      key={option.action}
+                      type="button"
+                      onClick={() => handleBranch(selectedItem, option.action)}
+                      disabled={option.disabledReason !== null}
+                      title={option.disabledReason ?? undefined}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
                 <div className="history-detail-actions">
                   <button type="button" onClick={() => handleDownload(selectedItem)}>
-                    Download
+                    {selectedMedia ? "Download" : "Download thumbnail"}
                   </button>
                   <button
                     type="button"
@@ -255,6 +522,8 @@ export default function History() {
           )}
         </div>
       )}
+
+      {compareItems && <CompareViewer items={compareItems} onClose={closeCompare} />}
     </div>
   );
 }
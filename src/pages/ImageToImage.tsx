@@ -5,15 +5,22 @@ import AutoSaveSettings from "../components/AutoSaveSettings";
 import ModerationStats from "../components/ModerationStats";
 import ModerationConfidence from "../components/ModerationConfidence";
 import PromptRewriteCard from "../components/PromptRewriteCard";
+import JobCard from "../components/JobCard";
+import CompareViewer from "../components/CompareViewer";
 import { useAppState } from "../context/AppStateContext";
 import type { RiskAssessment } from "../lib/promptAnalysis";
 import type { PromptRewriteResult } from "../lib/grokPromptRewrite";
-import { calculateImageEditCost } from "../lib/pricing";
+import { calculateImageCost, calculateImageEditCost } from "../lib/pricing";
+import { COMPARE_MAX, COMPARE_MIN, getImageJobCompareItem, type CompareItem } from "../lib/compare";
 
 export default function ImageToImage() {
-  const { state, updateImageToImageState, generateImages, analyzePrompt, rewritePrompt } = useAppState();
-  const { preview, prompt, model, imageCount, resultUrls, sourceUrls, loading, error } = state.imageToImage;
-  const [copiedIdx, setCopiedIdx] = useState<number | null>(null);
+  const { state, updateImageToImageState, generateImages, cancelJob, dismissJob, analyzePrompt, rewritePrompt } = useAppState();
+  const { mode, preview, prompt, model, imageCount, error, jobs } = state.imageToImage;
+  const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+  // Results ticked for comparison, as "<job id>:<index>"
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [compareItems, setCompareItems] = useState<CompareItem[] | null>(null);
+  const closeCompare = useCallback(() => setCompareItems(null), []);
 
   const [localError, setLocalError] = useState<string | null>(null);
   const [confidenceAssessment, setConfidenceAssessment] = useState<RiskAssessment | null>(null);
@@ -27,9 +34,9 @@ export default function ImageToImage() {
       return;
     }
     setLocalError(null);
-    updateImageToImageState({ resultUrls: [], sourceUrls: [], error: null });
+    updateImageToImageState({ error: null });
     const reader = new FileReader();
-    reader.onload = () => updateImageToImageState({ preview: reader.result as string });
+    reader.onload = () => updateImageToImageState({ preview: reader.result as string, previewHistoryId: null });
     reader.readAsDataURL(f);
   }, [updateImageToImageState]);
 
@@ -48,7 +55,7 @@ export default function ImageToImage() {
     setLocalError(null);
 
     try {
-      const totalCost = calculateImageEditCost(model, imageCount);
+      const totalCost = mode === "text" ? calculateImageCost(model, imageCount) : calculateImageEditCost(model, imageCount);
       const assessment = await analyzePrompt(prompt.trim(), 'image', totalCost);
       setConfidenceAssessment(assessment);
     } catch (err) {
@@ -56,7 +63,7 @@ export default function ImageToImage() {
     } finally {
       setAnalyzing(false);
     }
-  }, [prompt, model, imageCount, analyzePrompt]);
+  }, [prompt, mode, model, imageCount, analyzePrompt]);
 
   const handleRewritePrompt = useCallback(async () => {
     if (!prompt.trim()) {
@@ -80,34 +87,95 @@ export default function ImageToImage() {
 
   const displayError = error || localError;
 
+  // Ticked results that still exist (dismissed jobs drop out)
+  const compareCandidates = jobs.flatMap((job) =>
+    job.resultUrls.map((_, idx) => getImageJobCompareItem(job, idx)).filter((item) => compareIds.includes(item.id))
+  );
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]));
+  };
+
   return (
     <div className="page">
       <h1>Image to Image</h1>
-      <p className="subtitle">Upload an image and describe how to edit it. The model returns new image(s).</p>
+      <p className="subtitle">
+        {mode === "edit"
+          ? "Upload an image and describe how to edit it. The model returns new image(s)."
+          : "Describe the image you want. The model generates new image(s) from your prompt alone."}
+      </p>
 
-      {resultUrls.length > 0 && (
+      {jobs.length > 0 && (
         <div className="result result-on-top">
-          <h2>Result{resultUrls.length > 1 ? "s" : ""} ({resultUrls.length})</h2>
-          <div className="result-grid">
-            {resultUrls.map((url, idx) => (
-              <div key={idx} className="result-grid-item">
-                <img src={url} alt={`Generated ${idx + 1}`} className="result-img" />
-                {sourceUrls[idx] && (
-                  <button
-                    type="button"
-                    className="btn-imagine-link"
-                    onClick={() => {
-                      navigator.clipboard.writeText(sourceUrls[idx]);
-                      setCopiedIdx(idx);
-                      setTimeout(() => setCopiedIdx(null), 2000);
-                    }}
-                  >
-                    {copiedIdx === idx ? "✅ Copied!" : "🔗 Copy Imagine Link"}
-                  </button>
-                )}
-              </div>
-            ))}
+          <div className="result-header">
+            <h2>Jobs ({jobs.length})</h2>
+            {compareCandidates.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setCompareItems(compareCandidates)}
+                disabled={compareCandidates.length < COMPARE_MIN || compareCandidates.length > COMPARE_MAX}
+                title={`Tick ${COMPARE_MIN} to ${COMPARE_MAX} results to compare them side by side`}
+              >
+                Compare ({compareCandidates.length})
+              </button>
+            )}
           </div>
+          {jobs.map((job) => (
+            <JobCard
+              key={job.id}
+              status={job.status}
+              prompt={job.prompt}
+              detail={`${job.mode === "text" ? "From text" : "Edit"} · ${job.imageCount} image${job.imageCount > 1 ? "s" : ""} · ${job.model === "grok-imagine-image-pro" ? "Pro" : "Standard"}`}
+              startedAt={job.startedAt}
+              finishedAt={job.finishedAt}
+              progress={job.progress}
+              error={job.error}
+              errorKind={job.errorKind}
+              diagnostics={job.diagnostics}
+              onCancel={() => cancelJob(job.id)}
+              onDismiss={() => dismissJob(job.id)}
+            >
+              {job.resultUrls.length >= COMPARE_MIN && job.resultUrls.length <= COMPARE_MAX && (
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={() => setCompareItems(job.resultUrls.map((_, idx) => getImageJobCompareItem(job, idx)))}
+                >
+                  Compare these {job.resultUrls.length}
+                </button>
+              )}
+              {job.resultUrls.length > 0 && (
+                <div className="result-grid">
+                  {job.resultUrls.map((url, idx) => (
+                    <div key={idx} className="result-grid-item">
+                      <img src={url} alt={`Generated ${idx + 1}`} className="result-img" />
+                      <label className="result-compare-toggle">
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(`${job.id}:${idx}`)}
+                          onChange={() => toggleCompare(`${job.id}:${idx}`)}
+                        />{" "}
+                        Compare
+                      </label>
+                      {job.sourceUrls[idx] && (
+                        <button
+                          type="button"
+                          className="btn-imagine-link"
+                          onClick={() => {
+                            navigator.clipboard.writeText(job.sourceUrls[idx]);
+                            setCopiedUrl(job.sourceUrls[idx]);
+                            setTimeout(() => setCopiedUrl(null), 2000);
+                          }}
+                        >
+                          {copiedUrl === job.sourceUrls[idx] ? "✅ Copied!" : "🔗 Copy Imagine Link"}
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </JobCard>
+          ))}
         </div>
       )}
 
@@ -127,12 +195,25 @@ export default function ImageToImage() {
       />
 
       <div className="form">
+        <label className="block">
+          <span>Mode</span>
+          <select
+            value={mode}
+            onChange={(e) => updateImageToImageState({ mode: e.target.value as typeof mode, error: null })}
+          >
+            <option value="edit">Edit an uploaded image</option>
+            <option value="text">Generate from text</option>
+          </select>
+        </label>
+
         <label className="block">
           <span>Prompt</span>
           <textarea
             value={prompt}
             onChange={(e) => updateImageToImageState({ prompt: e.target.value })}
-            placeholder="e.g. Change the sky to sunset and add birds"
+            placeholder={mode === "edit"
+              ? "e.g. Change the sky to sunset and add birds"
+              : "e.g. A misty pine forest at dawn, soft golden light, wide shot"}
             rows={3}
           />
         </label>
@@ -161,13 +242,17 @@ export default function ImageToImage() {
           </select>
         </label>
 
-        <p className="cost-detail-note">
-          xAI bills image edits for the source image plus each generated output image.
-        </p>
+        {mode === "edit" && (
+          <>
+            <p className="cost-detail-note">
+              xAI bills image edits for the source image plus each generated output image.
+            </p>
 
-        <ImageUpload preview={preview} onFileSelect={onFileSelect} />
+            <ImageUpload preview={preview} onFileSelect={onFileSelect} />
+          </>
+        )}
 
-        <CostEstimator type="image" model={model} imageCount={imageCount} />
+        <CostEstimator type="image" imageMode={mode} model={model} imageCount={imageCount} />
 
         <div className="button-group">
           <button
@@ -189,15 +274,17 @@ export default function ImageToImage() {
           <button
             type="button"
             onClick={submit}
-            disabled={loading || !preview || !prompt.trim()}
+            disabled={(mode === "edit" && !preview) || !prompt.trim()}
             className="btn-generate"
           >
-            {loading ? "Generating…" : `Generate ${imageCount} image${imageCount > 1 ? "s" : ""}`}
+            {`Generate ${imageCount} image${imageCount > 1 ? "s" : ""}`}
           </button>
         </div>
       </div>
 
       {displayError && <p className="error">{displayError}</p>}
+
+      {compareItems && <CompareViewer items={compareItems} onClose={closeCompare} />}
     </div>
   );
 }
@@ -1,16 +1,23 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import ImageUpload from "../components/ImageUpload";
+import AspectRatioPicker from "../components/AspectRatioPicker";
 import CostEstimator from "../components/CostEstimator";
 import AutoSaveSettings from "../components/AutoSaveSettings";
 import ModerationStats from "../components/ModerationStats";
 import ModerationConfidence from "../components/ModerationConfidence";
 import PromptRewriteCard from "../components/PromptRewriteCard";
-import { useAppState } from "../context/AppStateContext";
+import JobCard from "../components/JobCard";
+import VideoJobProgress from "../components/VideoJobProgress";
+import CompareViewer from "../components/CompareViewer";
+import { useAppState, type VideoMode } from "../context/AppStateContext";
 import type { RiskAssessment } from "../lib/promptAnalysis";
 import type { PromptRewriteResult } from "../lib/grokPromptRewrite";
+import { GROK_ERROR_HINTS } from "../lib/grokErrors";
 import { runPreflightCheck, type PreflightResult } from "../lib/preflightCheck";
-import { calculateVideoCost } from "../lib/pricing";
+import { readVideoMetadata } from "../lib/history";
+import { calculatePreflightCost, calculateVideoModeCost, toVideoResolution, type VideoResolution } from "../lib/pricing";
 import { uploadPrivateVideoForExtension } from "../lib/s3VideoUpload";
+import { COMPARE_MAX, COMPARE_MIN, getVideoJobCompareItem, type CompareItem } from "../lib/compare";
 
 const DURATION_MIN = 1;
 const DURATION_MAX = 15;
@@ -20,42 +27,22 @@ const EXTEND_INPUT_MAX_SECONDS = 15;
 const EXTEND_DURATION_MIN = 2;
 const EXTEND_DURATION_MAX = 10;
 
-function readVideoDuration(file: File): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const objectUrl = URL.createObjectURL(file);
-    const video = document.createElement("video");
-
-    const cleanup = () => {
-      URL.revokeObjectURL(objectUrl);
-      video.removeAttribute("src");
-      video.load();
-    };
-
-    video.preload = "metadata";
-    video.onloadedmetadata = () => {
-      const duration = video.duration;
-      cleanup();
-      if (!Number.isFinite(duration) || duration <= 0) {
-        reject(new Error("Could not read the MP4 duration."));
-        return;
-      }
-      resolve(duration);
-    };
-    video.onerror = () => {
-      cleanup();
-      reject(new Error("Could not read the MP4 metadata."));
-    };
-
-    video.src = objectUrl;
-  });
-}
-
 export default function ImageToVideo() {
-  const { state, updateImageToVideoState, generateVideo, analyzePrompt, rewritePrompt } = useAppState();
-  const { mode, preview, sourceVideoUrl, sourceVideoName, sourceVideoKey, prompt, duration, resolution, resultUrl, sourceUrl, loading, error, diagnostics } = state.imageToVideo;
+  const { state, updateImageToVideoState, generateVideo, cancelJob, dismissJob, analyzePrompt, rewritePrompt } = useAppState();
+  const { mode, preview, sourceVideoUrl, sourceVideoName, sourceVideoKey, sourceVideoInfo, prompt, duration, resolution, aspectRatio, error, jobs } = state.imageToVideo;
+  // Image and text modes create a new clip; edit and extend work from a source video
+  const generatesNewVideo = mode === "generate" || mode === "text";
+  // Length and resolution of the current source video, once they have been read
+  const sourceInfo = !generatesNewVideo && sourceVideoInfo?.url === sourceVideoUrl.trim() ? sourceVideoInfo : null;
+  // Most recent finished video, offered as the source when switching to edit/extend
+  const latestSourceJob = jobs.find((job) => job.status === "done" && job.sourceUrl) ?? null;
 
   const [localError, setLocalError] = useState<string | null>(null);
-  const [copiedLink, setCopiedLink] = useState(false);
+  const [copiedJobId, setCopiedJobId] = useState<string | null>(null);
+  // Finished videos ticked for comparison, by job id
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [compareItems, setCompareItems] = useState<CompareItem[] | null>(null);
+  const closeCompare = useCallback(() => setCompareItems(null), []);
   const [uploadingSourceVideo, setUploadingSourceVideo] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [localSourceVideoDuration, setLocalSourceVideoDuration] = useState<number | null>(null);
@@ -83,9 +70,9 @@ export default function ImageToVideo() {
     }
     setLocalError(null);
     setReusedCachedUpload(false);
-    updateImageToVideoState({ resultUrl: null, error: null, sourceVideoUrl: "", sourceVideoKey: null });
+    updateImageToVideoState({ error: null, sourceVideoUrl: "", sourceVideoKey: null });
     const reader = new FileReader();
-    reader.onload = () => updateImageToVideoState({ preview: reader.result as string });
+    reader.onload = () => updateImageToVideoState({ preview: reader.result as string, previewHistoryId: null });
     reader.readAsDataURL(f);
   }, [updateImageToVideoState]);
 
@@ -96,11 +83,17 @@ export default function ImageToVideo() {
     }
 
     let durationSeconds: number;
+    let sourceResolution: VideoResolution;
+    const objectUrl = URL.createObjectURL(f);
     try {
-      durationSeconds = await readVideoDuration(f);
+      const metadata = await readVideoMetadata(objectUrl);
+      durationSeconds = metadata.duration;
+      sourceResolution = toVideoResolution(metadata.width, metadata.height);
     } catch (err) {
       setLocalError(`Video upload failed: ${err instanceof Error ? err.message : String(err)}`);
       return;
+    } finally {
+      URL.revokeObjectURL(objectUrl);
     }
 
     const minInputSeconds = mode === "extend" ? EXTEND_INPUT_MIN_SECONDS : 0;
@@ -126,12 +119,11 @@ export default function ImageToVideo() {
     setReusedCachedUpload(false);
     setLocalError(null);
     updateImageToVideoState({
-      resultUrl: null,
-      sourceUrl: null,
       error: null,
       sourceVideoUrl: "",
       sourceVideoName: f.name,
       sourceVideoKey: null,
+      sourceVideoHistoryId: null,
     });
 
     try {
@@ -141,6 +133,7 @@ export default function ImageToVideo() {
         sourceVideoUrl: uploaded.sourceVideoUrl,
         sourceVideoName: uploaded.sourceVideoName,
         sourceVideoKey: uploaded.key,
+        sourceVideoInfo: { url: uploaded.sourceVideoUrl, duration: Math.round(durationSeconds * 10) / 10, resolution: sourceResolution },
       });
       if (!uploaded.cached) {
         setUploadProgress(100);
@@ -166,21 +159,22 @@ export default function ImageToVideo() {
     }
   }, [mode, updateImageToVideoState]);
 
-  const handleModeChange = useCallback((nextMode: "generate" | "edit" | "extend") => {
+  const handleModeChange = useCallback((nextMode: VideoMode) => {
+    const usesSourceVideo = nextMode === "edit" || nextMode === "extend";
     updateImageToVideoState({
       mode: nextMode,
       error: null,
-      resultUrl: null,
-      sourceUrl: null,
-      sourceVideoName: nextMode === "generate" ? null : sourceVideoName,
-      sourceVideoKey: nextMode === "generate" ? null : sourceVideoKey,
+      sourceVideoName: usesSourceVideo ? sourceVideoName : null,
+      sourceVideoKey: usesSourceVideo ? sourceVideoKey : null,
       ...(nextMode === "extend" ? { duration: Math.min(EXTEND_DURATION_MAX, Math.max(EXTEND_DURATION_MIN, duration || 6)) } : {}),
       ...(nextMode === "edit" ? { duration: Math.min(EDIT_INPUT_MAX_SECONDS, Math.max(1, duration || 6)) } : {}),
-      ...(nextMode === "generate" && sourceVideoUrl ? { sourceVideoUrl: "" } : {}),
-      ...((nextMode === "edit" || nextMode === "extend") && sourceUrl && !sourceVideoUrl ? { sourceVideoUrl: sourceUrl } : {}),
+      ...(!usesSourceVideo && sourceVideoUrl ? { sourceVideoUrl: "", sourceVideoHistoryId: null } : {}),
+      ...(usesSourceVideo && latestSourceJob && !sourceVideoUrl
+        ? { sourceVideoUrl: latestSourceJob.sourceUrl!, sourceVideoHistoryId: latestSourceJob.historyId }
+        : {}),
     });
     setLocalError(null);
-  }, [duration, sourceUrl, sourceVideoKey, sourceVideoName, sourceVideoUrl, updateImageToVideoState]);
+  }, [duration, latestSourceJob, sourceVideoKey, sourceVideoName, sourceVideoUrl, updateImageToVideoState]);
 
   const submit = useCallback(async () => {
     await generateVideo();
@@ -188,8 +182,8 @@ export default function ImageToVideo() {
 
   // Manual preflight check (not from warning modal)
   const handleManualPreflight = useCallback(async () => {
-    if (!preview || !prompt.trim()) {
-      setLocalError("Please upload an image and enter a prompt first.");
+    if (mode === "text" ? !prompt.trim() : !preview || !prompt.trim()) {
+      setLocalError(mode === "text" ? "Please enter a prompt first." : "Please upload an image and enter a prompt first.");
       return;
     }
 
@@ -198,15 +192,19 @@ export default function ImageToVideo() {
     setLocalError(null);
 
     try {
-      const result = await runPreflightCheck(prompt.trim(), preview);
+      const result = await runPreflightCheck(prompt.trim(), mode === "text" ? null : preview);
       setPreflightResult(result);
 
-      if (!result.passed) {
+      if (!result.passed && result.errorKind === "moderation") {
         // Preflight failed - moderation caught
         setLocalError(
           `❌ Preflight check failed: ${result.error}\n\n` +
           "Your prompt was moderated. Please modify it and try again."
         );
+      } else if (!result.passed) {
+        // The check itself failed, so it says nothing about moderation
+        const hint = result.errorKind ? GROK_ERROR_HINTS[result.errorKind] : null;
+        setLocalError(`Preflight check could not run: ${result.error}${hint ? `\n\n${hint}` : ""}`);
       }
       // If passed, the success message will show automatically via preflightResult state
     } catch (err) {
@@ -214,7 +212,7 @@ export default function ImageToVideo() {
     } finally {
       setPreflightRunning(false);
     }
-  }, [preview, prompt]);
+  }, [mode, preview, prompt]);
 
   const handleAnalyzePrompt = useCallback(async () => {
     if (!prompt.trim()) {
@@ -227,7 +225,13 @@ export default function ImageToVideo() {
     setLocalError(null);
 
     try {
-      const videoCost = calculateVideoCost(duration, resolution);
+      const videoCost = calculateVideoModeCost({
+        mode,
+        duration,
+        resolution,
+        sourceDuration: sourceInfo?.duration,
+        sourceResolution: sourceInfo?.resolution,
+      });
       const assessment = await analyzePrompt(prompt.trim(), 'video', videoCost);
       setConfidenceAssessment(assessment);
     } catch (err) {
@@ -235,7 +239,7 @@ export default function ImageToVideo() {
     } finally {
       setAnalyzing(false);
     }
-  }, [prompt, duration, resolution, analyzePrompt]);
+  }, [prompt, mode, duration, resolution, sourceInfo, analyzePrompt]);
 
   const handleRewritePrompt = useCallback(async () => {
     if (!prompt.trim()) {
@@ -259,53 +263,102 @@ export default function ImageToVideo() {
 
   const displayError = error || localError;
 
+  // Ticked videos that still exist (dismissed jobs drop out)
+  const compareCandidates = jobs.filter((job) => job.resultUrl && compareIds.includes(job.id)).map(getVideoJobCompareItem);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]));
+  };
+
   return (
     <div className="page">
       <h1>Image to Video</h1>
       <p className="subtitle">
         {mode === "generate"
           ? "Upload an image and describe the motion. The model returns a short video."
-          : mode === "edit"
-            ? "Provide a source video URL and describe the edits. xAI keeps the source video's duration, aspect ratio, and resolution."
-            : "Provide a source video URL and describe how to continue it. xAI extends the clip by a few new seconds."}
+          : mode === "text"
+            ? "Describe the scene and motion. The model returns a short video from your prompt alone."
+            : mode === "edit"
+              ? "Provide a source video URL and describe the edits. xAI keeps the source video's duration, aspect ratio, and resolution."
+              : "Provide a source video URL and describe how to continue it. xAI extends the clip by a few new seconds."}
       </p>
 
-      {resultUrl && (
+      {jobs.length > 0 && (
         <div className="result result-on-top">
-          <h2>Result</h2>
-          <video src={resultUrl} controls className="result-video" />
-          {sourceUrl && (
-            <div className="button-group">
+          <div className="result-header">
+            <h2>Jobs ({jobs.length})</h2>
+            {compareCandidates.length > 0 && (
               <button
                 type="button"
-                className="btn-imagine-link"
-                onClick={() => {
-                  navigator.clipboard.writeText(sourceUrl);
-                  setCopiedLink(true);
-                  setTimeout(() => setCopiedLink(false), 2000);
-                }}
+                onClick={() => setCompareItems(compareCandidates)}
+                disabled={compareCandidates.length < COMPARE_MIN || compareCandidates.length > COMPARE_MAX}
+                title={`Tick ${COMPARE_MIN} to ${COMPARE_MAX} videos to compare them side by side`}
               >
-                {copiedLink ? "✅ Copied!" : "🔗 Copy Imagine Link"}
+                Compare ({compareCandidates.length})
               </button>
-              {mode === "generate" && (
-                <button
-                  type="button"
-                  className="btn-preflight"
-                  onClick={() => {
-                    handleModeChange("extend");
-                    updateImageToVideoState({ sourceVideoUrl: sourceUrl, sourceVideoKey: null });
-                  }}
-                >
-                  ↗ Use this video to extend
-                </button>
+            )}
+          </div>
+          {jobs.map((job) => (
+            <JobCard
+              key={job.id}
+              status={job.status}
+              prompt={job.prompt}
+              detail={
+                job.mode === "generate"
+                  ? `Generate · ${job.duration}s · ${job.resolution}${job.aspectRatio ? ` · ${job.aspectRatio}` : ""}`
+                  : job.mode === "text"
+                    ? `From text · ${job.duration}s · ${job.resolution}${job.aspectRatio ? ` · ${job.aspectRatio}` : ""}`
+                    : job.mode === "edit"
+                    ? "Edit"
+                    : `Extend · +${job.duration}s`
+              }
+              startedAt={job.startedAt}
+              finishedAt={job.finishedAt}
+              progress={job.progress}
+              error={job.error}
+              errorKind={job.errorKind}
+              diagnostics={job.diagnostics}
+              onCancel={() => cancelJob(job.id)}
+              onDismiss={() => dismissJob(job.id)}
+            >
+              {job.status === "running" && <VideoJobProgress job={job} />}
+              {job.resultUrl && <video src={job.resultUrl} controls className="result-video" />}
+              {job.resultUrl && (
+                <label className="result-compare-toggle">
+                  <input type="checkbox" checked={compareIds.includes(job.id)} onChange={() => toggleCompare(job.id)} /> Compare
+                </label>
               )}
-            </div>
-          )}
+              {job.sourceUrl && (
+                <div className="button-group">
+                  <button
+                    type="button"
+                    className="btn-imagine-link"
+                    onClick={() => {
+                      navigator.clipboard.writeText(job.sourceUrl!);
+                      setCopiedJobId(job.id);
+                      setTimeout(() => setCopiedJobId(null), 2000);
+                    }}
+                  >
+                    {copiedJobId === job.id ? "✅ Copied!" : "🔗 Copy Imagine Link"}
+                  </button>
+                  {(job.mode === "generate" || job.mode === "text") && (
+                    <button
+                      type="button"
+                      className="btn-preflight"
+                      onClick={() => {
+                        handleModeChange("extend");
+                        updateImageToVideoState({ sourceVideoUrl: job.sourceUrl!, sourceVideoKey: null, sourceVideoHistoryId: job.historyId });
+                      }}
+                    >
+                      ↗ Use this video to extend
+                    </button>
+                  )}
+                </div>
+              )}
+            </JobCard>
+          ))}
         </div>
       )}
-      {loading && !resultUrl && (
-        <p className="status">Video is being generated. This may take a few minutes.</p>
-      )}
       {preflightRunning && (
         <p className="status">🧪 Running preflight check (1s 480p test)...</p>
       )}
@@ -335,9 +388,10 @@ export default function ImageToVideo() {
           <span>Mode</span>
           <select
             value={mode}
-            onChange={(e) => handleModeChange(e.target.value as "generate" | "edit" | "extend")}
+            onChange={(e) => handleModeChange(e.target.value as VideoMode)}
           >
             <option value="generate">Generate video from image</option>
+            <option value="text">Generate video from text</option>
             <option value="edit">Edit existing video</option>
             <option value="extend">Extend existing video</option>
           </select>
@@ -350,7 +404,7 @@ export default function ImageToVideo() {
               type="url"
               value={sourceVideoUrl}
               onChange={(e) => {
-                updateImageToVideoState({ sourceVideoUrl: e.target.value, sourceVideoName: null, sourceVideoKey: null });
+                updateImageToVideoState({ sourceVideoUrl: e.target.value, sourceVideoName: null, sourceVideoKey: null, sourceVideoHistoryId: null });
                 setLocalSourceVideoDuration(null);
                 setReusedCachedUpload(false);
               }}
@@ -431,18 +485,20 @@ export default function ImageToVideo() {
             onChange={(e) => updateImageToVideoState({ prompt: e.target.value })}
             placeholder={mode === "generate"
               ? "e.g. Animate the clouds drifting and trees swaying gently"
-              : "e.g. Add a subtle zoom, increase the brightness, and keep the motion smooth"}
+              : mode === "text"
+                ? "e.g. A paper boat drifting down a rain-soaked street at dusk, slow tracking shot"
+                : "e.g. Add a subtle zoom, increase the brightness, and keep the motion smooth"}
             rows={3}
           />
         </label>
 
         <label className="block">
           <span>
-            {mode === "generate"
+            {generatesNewVideo
               ? `Video length: ${duration} s`
               : mode === "extend"
                 ? `Extension length: ${duration} s`
-                : "Edited video length: same as source"}
+                : `Edited video length: same as source${sourceInfo ? ` (${sourceInfo.duration} s)` : ""}`}
           </span>
           {mode === "edit" ? (
             <span className="cost-detail-note">
@@ -452,8 +508,8 @@ export default function ImageToVideo() {
             <input
               type="range"
               className="slider"
-              min={mode === "generate" ? DURATION_MIN : EXTEND_DURATION_MIN}
-              max={mode === "generate" ? DURATION_MAX : EXTEND_DURATION_MAX}
+              min={generatesNewVideo ? DURATION_MIN : EXTEND_DURATION_MIN}
+              max={generatesNewVideo ? DURATION_MAX : EXTEND_DURATION_MAX}
               value={duration}
               onChange={(e) => updateImageToVideoState({ duration: Number(e.target.value) })}
             />
@@ -461,16 +517,16 @@ export default function ImageToVideo() {
         </label>
 
         <label className="block">
-          <span>{mode === "generate" ? "Resolution (lower = cheaper)" : "Source video resolution (detected from upload or URL)"}</span>
+          <span>{generatesNewVideo ? "Resolution (lower = cheaper)" : "Source video resolution (detected from upload or URL)"}</span>
           <select
-            value={resolution}
+            value={generatesNewVideo ? resolution : sourceInfo?.resolution ?? resolution}
             onChange={(e) => updateImageToVideoState({ resolution: e.target.value as "480p" | "720p" })}
-            disabled={mode !== "generate"}
+            disabled={!generatesNewVideo}
           >
             <option value="480p">480p (854x480) - Recommended (lowest cost)</option>
             <option value="720p">720p (1280x720) - Higher quality</option>
           </select>
-          {mode !== "generate" && (
+          {!generatesNewVideo && (
             <span className="cost-detail-note">
               {mode === "edit"
                 ? "xAI video edits keep the source video's own resolution and aspect ratio."
@@ -481,7 +537,22 @@ export default function ImageToVideo() {
 
         {mode === "generate" && <ImageUpload preview={preview} onFileSelect={onFileSelect} />}
 
-        <CostEstimator type="video" videoMode={mode} duration={duration} resolution={resolution} />
+        {generatesNewVideo && (
+          <AspectRatioPicker
+            value={aspectRatio}
+            onChange={(next) => updateImageToVideoState({ aspectRatio: next })}
+            preview={mode === "generate" ? preview : null}
+          />
+        )}
+
+        <CostEstimator
+          type="video"
+          videoMode={mode}
+          duration={duration}
+          resolution={resolution}
+          sourceDuration={sourceInfo?.duration}
+          sourceResolution={sourceInfo?.resolution}
+        />
 
         <div className="button-group">
           <button
@@ -503,12 +574,12 @@ export default function ImageToVideo() {
           <button
             type="button"
             onClick={handleManualPreflight}
-            disabled={preflightRunning || uploadingSourceVideo || mode !== "generate" || !preview || !prompt.trim()}
+            disabled={preflightRunning || uploadingSourceVideo || !generatesNewVideo || (mode === "generate" && !preview) || !prompt.trim()}
             className="btn-preflight"
             title={
-              mode === "generate"
-                ? "Test your prompt with a quick 1s 480p video ($0.052) to catch moderation early"
-                : "Preflight is only available for image-to-video generation"
+              generatesNewVideo
+                ? `Test your prompt with a quick 1s 480p video ($${calculatePreflightCost(mode === "text" ? "text" : "generate").toFixed(3)}) to catch moderation early`
+                : "Preflight is only available for image-to-video and text-to-video generation"
             }
           >
             {preflightRunning ? "Running preflight…" : "🧪 Preflight Check"}
@@ -516,16 +587,16 @@ export default function ImageToVideo() {
           <button
             type="button"
             onClick={submit}
-            disabled={loading || uploadingSourceVideo || (mode === "generate" ? !preview : !sourceVideoUrl.trim()) || !prompt.trim()}
+            disabled={uploadingSourceVideo || (mode === "generate" ? !preview : mode === "text" ? false : !sourceVideoUrl.trim()) || !prompt.trim()}
             className="btn-generate"
           >
-            {loading ? "Generating video…" : mode === "generate" ? "Generate video" : mode === "edit" ? "Edit video" : "Extend video"}
+            {generatesNewVideo ? "Generate video" : mode === "edit" ? "Edit video" : "Extend video"}
           </button>
         </div>
 
         <div className="button-help-text">
-          {mode === "generate" ? (
-            <p>💡 <strong>Preflight Check:</strong> Test your prompt with a 1s video ($0.052) before committing to the full generation. Saves money if your prompt gets moderated!</p>
+          {generatesNewVideo ? (
+            <p>💡 <strong>Preflight Check:</strong> Test your prompt with a 1s video (${calculatePreflightCost(mode === "text" ? "text" : "generate").toFixed(3)}) before committing to the full generation. Saves money if your prompt gets moderated!</p>
           ) : mode === "edit" ? (
             <p>💡 <strong>Video edit:</strong> xAI keeps the source video's duration, aspect ratio, and resolution. Input MP4s must be at most 8.7 seconds.</p>
           ) : (
@@ -535,12 +606,8 @@ export default function ImageToVideo() {
       </div>
 
       {displayError && <p className="error">{displayError}</p>}
-      {diagnostics && (
-        <details className="diagnostics">
-          <summary>Show xAI error details</summary>
-          <pre>{diagnostics}</pre>
-        </details>
-      )}
+
+      {compareItems && <CompareViewer items={compareItems} onClose={closeCompare} />}
     </div>
   );
 }
@@ -0,0 +1,18 @@
+import AutoSaveSettings from "../components/AutoSaveSettings";
+import BudgetSettings from "../components/BudgetSettings";
+import NotificationSettings from "../components/NotificationSettings";
+import PricingSettings from "../components/PricingSettings";
+
+export default function Settings() {
+  return (
+    <div className="page settings-page">
+      <h1>Settings</h1>
+      <p className="subtitle">Stored in this browser only.</p>
+
+      <BudgetSettings />
+      <PricingSettings />
+      <NotificationSettings />
+      <AutoSaveSettings />
+    </div>
+  );
+}